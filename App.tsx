@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { initRandomGame, applyAction, canStackOn, getStackBaseType, isValidCoordinate } from './gameEngine';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { initRandomGame, applyAction, canStackOn, planChains } from './gameEngine';
 import { 
   GameState, 
   ActionType, 
@@ -9,19 +9,30 @@ import {
   PlayerAction, 
   CaptureResolution, 
   Color,
-  PieceStack
+  PieceStack,
+  RULE_PRESETS,
+  STANDARD_RULES,
+  GameEndReason
 } from './types';
+import { GameRecord, createGameRecord, getCurrentState, recordAction, replayGameRecord, jumpToPly, undo, redo, canUndo, canRedo } from './gameRecord';
+import { saveAutosave, loadAutosave, downloadGame, deserializeGame } from './savedGame';
+import { AiDifficulty } from './ai';
+import { getPlayerView } from './playerView';
+import type { AiRequest, AiResponse } from './aiWorker';
+import { useOnlineRoom, defaultServerUrl } from './useOnlineRoom';
 import { BoardView } from './BoardView';
+import { getDeployHints, getMoveHintsFrom } from './moveHints';
 import { HandView } from './HandView';
-
-// --- Constants ---
-const SUPPORTS_CHAIN_CAPTURE = new Set<PieceType>([
-  PieceType.CHARIOT,
-  PieceType.HORSE,
-  PieceType.CANNON,
-  PieceType.ADVISOR,
-  PieceType.ELEPHANT,
-]);
+import { ClockView } from './ClockView';
+import { ReplayView } from './ReplayView';
+import { StackInspectorView } from './StackInspectorView';
+import { PositionEditorView } from './PositionEditorView';
+import { createSetup, startFromSetup } from './positionEditor';
+import { describeViolation } from './violations';
+import { formatSquare } from './squares';
+import { LOCALE_NAMES, Locale, translate, pieceName } from './i18n';
+import { LocaleContext, Translate, useLocaleSetting } from './useLocale';
+import { ClockState, TIME_CONTROL_PRESETS, createClock, passClock, resumeClock, pauseClock, getFlaggedPlayer } from './clock';
 
 // Selection State
 type Selection = 
@@ -37,6 +48,45 @@ type DeployModalState = {
   current: number;
 } | null;
 
+// Who plays each side: a human at this screen or the computer at a difficulty
+type PlayerController = 'HUMAN' | AiDifficulty;
+
+const PLAYER_CONTROLLERS: PlayerController[] = ['HUMAN', AiDifficulty.EASY, AiDifficulty.MEDIUM, AiDifficulty.HARD];
+
+const UNTIMED = 'UNTIMED';
+
+const REPLAY_STEP_MS = 700; // Pause between plies while a replay plays (on top of the move animation)
+
+// Who should be on the clock in this state (nobody once the game is over)
+const clockPlayer = (state: GameState): number | null => (state.isGameOver ? null : state.activePlayerIndex);
+
+// Spoken description of an action for the live region, e.g. "玩家 1 从 a1 走到 c1"
+const describeAction = (action: PlayerAction, t: Translate, locale: Locale): string => {
+  const player = action.playerId;
+  switch (action.type) {
+    case ActionType.FLIP:
+      return t('announce.FLIP', { player, square: formatSquare(action.flipLocation!) });
+    case ActionType.MOVE:
+      return t('announce.MOVE', { player, from: formatSquare(action.from!), to: formatSquare(action.to!) });
+    case ActionType.DEPLOY:
+      return t('announce.DEPLOY', { player, count: action.deployCount!, piece: pieceName(locale, action.deployType!), square: formatSquare(action.deployTo!) });
+    case ActionType.RETRIEVE:
+      return t('announce.RETRIEVE', { player, count: action.retrievePieceIds!.length, square: formatSquare(action.retrieveFrom!) });
+    default:
+      return t(`announce.${action.type}`, { player });
+  }
+};
+
+const sameLocation = (a: Location, b: Location): boolean => a.row === b.row && a.col === b.col;
+
+// One-line result, e.g. "玩家 0 获胜 (玩家 1 认输)" or "和棋 (局面重复)". Win reasons describe the loser.
+const describeResult = (state: GameState, t: Translate): string => {
+  if (!state.result) return t('gameOver.title');
+  const { winner, reason } = state.result;
+  if (winner === null) return t('gameOver.summaryDraw', { reason: t(`endReason.${reason}`) });
+  return t('gameOver.summaryWin', { winner, loser: 1 - winner, reason: t(`endReason.${reason}`) });
+};
+
 // Animation State
 export interface AnimationStep {
   type: 'MOVE';
@@ -47,7 +97,35 @@ export interface AnimationStep {
 }
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>(initRandomGame());
+  // Language (App provides it to every component through LocaleContext)
+  const [locale, setLocale] = useLocaleSetting();
+  const t: Translate = (key, params) => translate(locale, key, params);
+  const endReasonLabel = (reason: GameEndReason) => t(`endReason.${reason}`);
+
+  // Game Record (initial state + accepted actions) drives undo/redo, restored from autosave
+  const [autosave] = useState(loadAutosave);
+  const [record, setRecord] = useState<GameRecord>(() => autosave?.record ?? createGameRecord(initRandomGame()));
+  const [gameState, setGameState] = useState<GameState>(getCurrentState(record));
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [rulePreset, setRulePreset] = useState<string>(record.initialState.rules.name); // Applies to the next new game
+
+  // Chess Clock (null = untimed game). Saved clocks come back paused.
+  const [clock, setClock] = useState<ClockState | null>(() => autosave?.clock ? resumeClock(autosave.clock, clockPlayer(gameState), Date.now()) : null);
+  const [timeControl, setTimeControl] = useState<string>(clock?.control.name ?? UNTIMED); // Applies to the next new game
+  const [now, setNow] = useState(Date.now);
+
+  // Computer Opponent
+  const [controllers, setControllers] = useState<[PlayerController, PlayerController]>(['HUMAN', 'HUMAN']);
+  const [aiThinking, setAiThinking] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const aiRequestIdRef = useRef(0);
+  const queueActionRef = useRef<(action: PlayerAction) => void>(() => {});
+
+  // Online Play (server owns the state; we render its view for our seat)
+  const online = useOnlineRoom();
+  const [lobbyRoomId, setLobbyRoomId] = useState('room1');
+  const [lobbyServerUrl, setLobbyServerUrl] = useState(defaultServerUrl);
+
   const [selection, setSelection] = useState<Selection>(null);
   
   // Modal States
@@ -56,9 +134,20 @@ export default function App() {
 
   // Fast Chain States
   const [fastChainOrigin, setFastChainOrigin] = useState<Location | null>(null); 
-  const [fastChainTargets, setFastChainTargets] = useState<Location[]>([]); 
   const [fastChainSelected, setFastChainSelected] = useState<Location[]>([]); 
 
+  // Replay (review of the local game; record.ply is the position shown)
+  const [replay, setReplay] = useState<GameRecord | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+
+  // Position Editor (analysis mode; gameState holds the setup being edited)
+  const [isEditing, setIsEditing] = useState(false);
+  const [editorSquare, setEditorSquare] = useState<Location | null>(null);
+
+  // Screen-reader announcements (opponent moves, results, rejected actions)
+  const [announcement, setAnnouncement] = useState('');
+  const announcedActionRef = useRef('');
+
   // Animation System
   const [animQueue, setAnimQueue] = useState<AnimationStep[]>([]);
   const [activeAnim, setActiveAnim] = useState<AnimationStep | null>(null);
@@ -66,6 +155,18 @@ export default function App() {
   const activePlayer = gameState.players[gameState.activePlayerIndex];
   const isChainActive = !!gameState.pendingChainCapture;
   const isAnimating = !!activeAnim || animQueue.length > 0;
+  const isOnline = online.status !== 'OFFLINE';
+  const isReplaying = !!replay;
+  const isAiTurn = !isOnline && !isReplaying && !isEditing && controllers[gameState.activePlayerIndex] !== 'HUMAN';
+  const isRemoteTurn = isOnline && online.seat !== gameState.activePlayerIndex;
+  const isInputLocked = isAiTurn || isRemoteTurn || isReplaying || isEditing;
+  const [gameOverDismissed, setGameOverDismissed] = useState(false); // Hides the result dialog to look at the final position
+
+  // Resign button acts for: our seat online, the only human against the computer, else the side to move
+  const humanSeats = [0, 1].filter(i => controllers[i] === 'HUMAN');
+  const resigningPlayer = isOnline
+    ? online.seat
+    : humanSeats.length === 1 ? humanSeats[0] : humanSeats.length === 2 ? gameState.activePlayerIndex : null;
 
   // --- Animation Processor ---
   useEffect(() => {
@@ -86,161 +187,118 @@ export default function App() {
 
   }, [animQueue, activeAnim]);
 
-  // --- Helper: Simulate Fast Chain Path ---
-  const simulateFastChain = (
-    baseState: GameState,
-    origin: Location,
-    path: Location[]
-  ): { state: GameState; currentLoc: Location } | null => {
-    let tempState = JSON.parse(JSON.stringify(baseState));
-    let currentLoc = origin;
-  
-    for (const target of path) {
-      const action: PlayerAction = {
-        type: ActionType.MOVE,
-        playerId: tempState.activePlayerIndex,
-        from: currentLoc,
-        to: target,
-        captureResolution: CaptureResolution.TO_HAND
-      };
-      
-      const result = applyAction(tempState, action);
-      if (result.error) return null; 
-      
-      tempState = result;
-      currentLoc = target;
-    }
-    return { state: tempState, currentLoc };
-  };
+  // --- AI Worker ---
+  useEffect(() => {
+    const worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<AiResponse>) => {
+      // Ignore answers for positions we have since left (undo, restart, controller change)
+      if (e.data.requestId !== aiRequestIdRef.current) return;
+      setAiThinking(false);
+      if (e.data.action) queueActionRef.current(e.data.action);
+    };
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
 
-  // --- Helper: Get Candidate Steps based on Piece Type ---
-  const getCandidateStepsForPiece = (state: GameState, from: Location, type: PieceType): Location[] => {
-    const candidates: Location[] = [];
-    const { board } = state;
-
-    if (type === PieceType.CHARIOT) {
-      const directions = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      directions.forEach(([dr, dc]) => {
-        for (let i = 1; i < 8; i++) {
-          const r = from.row + dr * i;
-          const c = from.col + dc * i;
-          if (!isValidCoordinate({row: r, col: c})) break;
-          candidates.push({row: r, col: c});
-          if (board[r][c]) break; // Chariot stops at first piece
-        }
-      });
-    } else if (type === PieceType.CANNON) {
-      const directions = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      directions.forEach(([dr, dc]) => {
-        for (let i = 1; i < 8; i++) {
-          const r = from.row + dr * i;
-          const c = from.col + dc * i;
-          if (!isValidCoordinate({row: r, col: c})) break;
-          // For Cannon, we consider all non-empty cells in line as potential interaction targets.
-          // applyAction will rigorously enforce the "exactly one screen" rule.
-          if (board[r][c]) {
-             candidates.push({row: r, col: c});
-          }
-        }
-      });
-    } else if (type === PieceType.HORSE) {
-      // Diagonal 1 step
-      const offsets = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
-      offsets.forEach(([dr, dc]) => {
-        const r = from.row + dr;
-        const c = from.col + dc;
-        if (isValidCoordinate({row: r, col: c})) candidates.push({row: r, col: c});
-      });
-    } else {
-      // Advisor, Elephant (Orthogonal 1 step)
-      const offsets = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      offsets.forEach(([dr, dc]) => {
-        const r = from.row + dr;
-        const c = from.col + dc;
-        if (isValidCoordinate({row: r, col: c})) candidates.push({row: r, col: c});
-      });
-    }
-    return candidates;
-  };
+  // Ask the worker for a move whenever a computer-controlled side is to play
+  useEffect(() => {
+    aiRequestIdRef.current++;
+    setAiThinking(false);
 
-  // --- Unified Chain Target Calculator ---
-  const recomputeFastChainTargets = (origin: Location, path: Location[]) => {
-    // 1. Get the base piece type from the origin
-    const originStack = gameState.board[origin.row][origin.col];
-    if (!originStack || originStack.pieces.length === 0) {
-        setFastChainTargets([]);
-        return;
-    }
-    const baseType = getStackBaseType(originStack.pieces);
+    const controller = controllers[gameState.activePlayerIndex];
+    if (isOnline || isReplaying || isEditing || controller === 'HUMAN' || isAnimating || gameState.isGameOver || !workerRef.current) return;
 
-    // 2. Simulate current state
-    const sim = simulateFastChain(gameState, origin, path);
-    if (!sim) {
-      setFastChainTargets([]);
-      return;
-    }
+    // The worker only ever receives the redacted view, never the face-down identities
+    const view = getPlayerView(gameState, gameState.activePlayerIndex);
+    const request: AiRequest = { requestId: aiRequestIdRef.current, state: view, difficulty: controller };
+    setAiThinking(true);
+    workerRef.current.postMessage(request);
+  }, [gameState, controllers, isAnimating, isOnline, isReplaying, isEditing]);
 
-    const { state: tempState, currentLoc } = sim;
-    
-    // 3. Get geometrical candidates
-    const candidates = getCandidateStepsForPiece(tempState, currentLoc, baseType);
-    const validTargets: Location[] = [];
-
-    // 4. Validate with applyAction
-    for (const target of candidates) {
-        const testAction: PlayerAction = {
-           type: ActionType.MOVE,
-           playerId: tempState.activePlayerIndex,
-           from: currentLoc,
-           to: target,
-           captureResolution: CaptureResolution.TO_HAND
-        };
-
-        const result = applyAction(tempState, testAction);
-        if (!result.error) {
-            validTargets.push(target);
-        }
-    }
+  // --- Online Sync: every server view replaces the local state (also after reconnect) ---
+  useEffect(() => {
+    if (!online.view) return;
+    setGameState(online.view);
+    resetTransientUi();
+  }, [online.view]);
 
-    setFastChainTargets(validTargets);
-  };
+  // A new result always shows the dialog again
+  useEffect(() => {
+    setGameOverDismissed(false);
+  }, [gameState.isGameOver]);
 
-  // --- Effect: Auto-Recalculate Targets ---
+  // --- Live Region: moves by the computer or the remote opponent, and the result ---
   useEffect(() => {
-    // Mode 1: Active Fast Chain Mode (or just updated path)
-    if (fastChainOrigin) {
-      recomputeFastChainTargets(fastChainOrigin, fastChainSelected);
-      return;
-    }
+    const action = gameState.lastAction;
+    if (!action || isReplaying) return;
+    // Online views arrive as fresh objects, so compare by content
+    const key = `${gameState.turnCount}:${gameState.isGameOver}:${JSON.stringify(action)}`;
+    if (key === announcedActionRef.current) return;
+    announcedActionRef.current = key;
+
+    const isOpponent = isOnline ? action.playerId !== online.seat : controllers[action.playerId] !== 'HUMAN';
+    const parts = isOpponent ? [describeAction(action, t, locale)] : [];
+    if (gameState.isGameOver) parts.push(describeResult(gameState, t));
+    if (parts.length > 0) setAnnouncement(parts.join('. '));
+  }, [gameState]);
 
-    // Mode 2: Passive Scan (Show button if targets exist for selected piece)
-    if (selection?.type === 'BOARD' && !isAnimating) {
-      const { row, col } = selection.loc;
-      const stack = gameState.board[row][col];
-      if (stack && stack.pieces.length > 0) {
-        const baseType = getStackBaseType(stack.pieces);
-        if (SUPPORTS_CHAIN_CAPTURE.has(baseType)) {
-          recomputeFastChainTargets(selection.loc, []);
-        } else {
-          setFastChainTargets([]);
-        }
-      } else {
-        setFastChainTargets([]);
-      }
-    } else {
-      setFastChainTargets([]);
+  useEffect(() => {
+    if (online.error) setAnnouncement(online.violation ? describeViolation(online.violation, locale) : online.error);
+  }, [online.error, online.violation]);
+
+  // --- Clock: redraw while running, and flag the player to move once their time is up ---
+  useEffect(() => {
+    if (!clock || clock.running === null || clock.runningSince === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(timer);
+  }, [clock]);
+
+  useEffect(() => {
+    if (!clock || isOnline || isAnimating || gameState.isGameOver) return;
+    const flagged = getFlaggedPlayer(clock, now);
+    if (flagged !== null && flagged === gameState.activePlayerIndex) {
+      queueActionRef.current({ type: ActionType.TIMEOUT, playerId: flagged });
     }
-  }, [selection, gameState, fastChainOrigin, fastChainSelected, isAnimating]);
+  }, [now]);
 
+  // --- Autosave ---
+  useEffect(() => {
+    saveAutosave(record, clock);
+  }, [record, clock]);
+
+  // --- Fast Chain: engine plans for the chaining or selected stack (every capture goes to hand) ---
+  const fastChainPlans = useMemo(() => {
+    const origin = fastChainOrigin ?? (selection?.type === 'BOARD' && !isAnimating ? selection.loc : null);
+    if (!origin) return [];
+    return planChains(gameState, origin).filter(plan => plan.steps.every(step => step.captureResolution === CaptureResolution.TO_HAND));
+  }, [gameState, selection, fastChainOrigin, isAnimating]);
+
+  // Next squares that extend the path picked so far
+  const fastChainTargets = useMemo(() => fastChainPlans
+    .filter(plan => plan.steps.length === fastChainSelected.length + 1 && fastChainSelected.every((loc, i) => sameLocation(plan.steps[i].to, loc)))
+    .map(plan => plan.steps[fastChainSelected.length].to), [fastChainPlans, fastChainSelected]);
+
+  // --- Legal Move Hints for the current selection ---
+  const moveHints = useMemo(() => {
+    if (!selection || fastChainOrigin || isAnimating || isInputLocked || gameState.isGameOver) return [];
+    return selection.type === 'BOARD' ? getMoveHintsFrom(gameState, selection.loc) : getDeployHints(gameState, selection.pieceType);
+  }, [gameState, selection, fastChainOrigin, isAnimating, isInputLocked]);
+
+  // Offered for real chains: more than one capture ahead, or one already under way
+  const canFastChain = isChainActive ? fastChainTargets.length > 0 : fastChainPlans.some(plan => plan.steps.length > 1);
 
   const handleBoardClick = (loc: Location) => {
-    if (isAnimating) return; 
+    if (isEditing) {
+      setEditorSquare(loc);
+      return;
+    }
+    if (isAnimating || isInputLocked) return; 
     if (pendingInteraction || deployModal) return;
 
     // --- Fast Chain Selection Logic ---
     if (fastChainOrigin) {
       // 1. Append next target
-      const isNextTarget = fastChainTargets.some(t => t.row === loc.row && t.col === loc.col);
+      const isNextTarget = fastChainTargets.some(t => sameLocation(t, loc));
       if (isNextTarget) {
         setFastChainSelected([...fastChainSelected, loc]);
         return;
@@ -248,7 +306,7 @@ export default function App() {
 
       // 2. Backtrack last step
       const lastSelected = fastChainSelected.length > 0 ? fastChainSelected[fastChainSelected.length - 1] : null;
-      const isLastSelected = lastSelected && lastSelected.row === loc.row && lastSelected.col === loc.col;
+      const isLastSelected = lastSelected && sameLocation(lastSelected, loc);
       if (isLastSelected) {
         setFastChainSelected(fastChainSelected.slice(0, -1));
         return;
@@ -258,7 +316,6 @@ export default function App() {
       // If clicking elsewhere or origin, and not a valid target/backtrack -> Exit mode
       setFastChainOrigin(null);
       setFastChainSelected([]);
-      setFastChainTargets([]);
       // Optional: If they clicked the origin, just deselect. If they clicked another piece, maybe select it?
       // For simplicity, we just exit Fast Chain mode.
       return;
@@ -329,10 +386,9 @@ export default function App() {
     if (fastChainOrigin) {
         setFastChainOrigin(null);
         setFastChainSelected([]);
-        setFastChainTargets([]);
     }
 
-    if (isAnimating || isChainActive || pendingInteraction || deployModal) return;
+    if (isAnimating || isInputLocked || isChainActive || pendingInteraction || deployModal) return;
     
     if (selection?.type === 'HAND' && selection.pieceType === type) {
       setSelection(null); 
@@ -342,13 +398,30 @@ export default function App() {
   };
 
   const handlePass = () => {
-    if (isAnimating || !isChainActive || pendingInteraction || deployModal) return;
+    if (isAnimating || isInputLocked || !isChainActive || pendingInteraction || deployModal) return;
     queueAction({
       type: ActionType.PASS,
       playerId: gameState.activePlayerIndex
     });
   };
 
+  const handleOfferDraw = () => {
+    if (isAnimating || isInputLocked || gameState.isGameOver || gameState.drawOfferBy !== null) return;
+    queueAction({ type: ActionType.OFFER_DRAW, playerId: gameState.activePlayerIndex });
+  };
+
+  const handleAcceptDraw = () => {
+    if (isAnimating || isInputLocked) return;
+    queueAction({ type: ActionType.ACCEPT_DRAW, playerId: gameState.activePlayerIndex });
+  };
+
+  // Resigning is allowed on either turn, so it ignores the input lock
+  const handleResign = () => {
+    if (isAnimating || isReplaying || isEditing || gameState.isGameOver || resigningPlayer === null) return;
+    if (!window.confirm(t('header.confirmResign', { player: resigningPlayer }))) return;
+    queueAction({ type: ActionType.RESIGN, playerId: resigningPlayer });
+  };
+
   const attemptMove = (from: Location, to: Location) => {
     // Dry Run
     const testAction: PlayerAction = {
@@ -359,7 +432,10 @@ export default function App() {
       captureResolution: CaptureResolution.TO_HAND
     };
     const testResult = applyAction(gameState, testAction);
-    if (testResult.error) return; // Silent fail
+    if (testResult.error) {
+      setAnnouncement(describeViolation(testResult.error, locale)); // Only screen readers hear it
+      return;
+    }
 
     // Check Interaction
     const targetStack = gameState.board[to.row][to.col];
@@ -398,6 +474,16 @@ export default function App() {
     setPendingInteraction(null);
   };
 
+  const handleRetrieve = (pieceIds: string[]) => {
+    if (selection?.type !== 'BOARD') return;
+    queueAction({
+      type: ActionType.RETRIEVE,
+      playerId: gameState.activePlayerIndex,
+      retrieveFrom: selection.loc,
+      retrievePieceIds: pieceIds
+    });
+  };
+
   const confirmDeploy = () => {
     if (!deployModal) return;
     queueAction({
@@ -419,52 +505,37 @@ export default function App() {
   const cancelFastChain = () => {
     setFastChainOrigin(null);
     setFastChainSelected([]);
-    setFastChainTargets([]);
   };
 
   const executeFastChain = () => {
-    if (!fastChainOrigin || fastChainSelected.length === 0) return;
-    
-    let tempState = gameState;
-    let currentFrom = fastChainOrigin;
-    const steps: AnimationStep[] = [];
-
-    // SEQUENTIAL EXECUTION
-    for (const target of fastChainSelected) {
-       const action: PlayerAction = {
-          type: ActionType.MOVE,
-          playerId: tempState.activePlayerIndex,
-          from: currentFrom,
-          to: target,
-          captureResolution: CaptureResolution.TO_HAND 
-       };
-       
-       const result = applyAction(tempState, action);
-       if (result.error) {
-         console.warn("Auto chain execution interrupted:", result.error);
-         break;
-       }
-       
-       const stack = tempState.board[currentFrom.row][currentFrom.col];
-
-       steps.push({
-         type: 'MOVE',
-         from: currentFrom,
-         to: target,
-         finalState: result,
-         stackSnapshot: stack ? JSON.parse(JSON.stringify(stack)) : {pieces:[]} 
-       });
-
-       tempState = result;
-       currentFrom = target;
-    }
+    const plan = fastChainPlans.find(p =>
+      p.steps.length === fastChainSelected.length && p.steps.every((step, i) => sameLocation(step.to, fastChainSelected[i])));
+    if (!plan) return;
+
+    // The plan already holds every intermediate state: record and animate each step
+    const steps: AnimationStep[] = plan.actions.map((action, i) => {
+      const before = i === 0 ? gameState : plan.states[i - 1];
+      const result = plan.states[i];
+      if (isOnline) online.sendAction(action);
+      else setRecord(prev => recordAction(prev, action, result));
+      return {
+        type: 'MOVE',
+        from: action.from!,
+        to: action.to!,
+        finalState: result,
+        stackSnapshot: before.board[action.from!.row][action.from!.col] ?? {pieces:[]}
+      };
+    });
 
-    setAnimQueue(prev => [...prev, ...steps]);
+    // Online: the server's views drive the board, so no local animation
+    if (!isOnline) {
+      setClock(c => c && passClock(c, clockPlayer(plan.states[plan.states.length - 1]), Date.now()));
+      setAnimQueue(prev => [...prev, ...steps]);
+    }
     
     // Cleanup UI
     setSelection(null);
     setFastChainOrigin(null);
-    setFastChainTargets([]);
     setFastChainSelected([]);
   };
 
@@ -474,15 +545,26 @@ export default function App() {
     if (fastChainOrigin) {
         setFastChainOrigin(null);
         setFastChainSelected([]);
-        setFastChainTargets([]);
     }
 
     const result = applyAction(gameState, action);
     if (result.error) {
-      console.warn(result.error);
+      console.warn(describeViolation(result.error, locale));
+      setAnnouncement(describeViolation(result.error, locale));
       return;
     }
 
+    // Online: validated against our view, resolved by the server
+    if (isOnline) {
+      online.sendAction(action);
+      setSelection(null);
+      return;
+    }
+
+    setRecord(prev => recordAction(prev, action, result));
+    // Chain captures and draw offers keep the same player on the clock
+    setClock(c => c && passClock(c, clockPlayer(result), Date.now()));
+
     if (action.type === ActionType.MOVE && action.from && action.to) {
       // Animate Moves
       const stack = gameState.board[action.from.row][action.from.col];
@@ -491,7 +573,7 @@ export default function App() {
         from: action.from!,
         to: action.to!,
         finalState: result,
-        stackSnapshot: stack ? JSON.parse(JSON.stringify(stack)) : {pieces:[]}
+        stackSnapshot: stack ?? {pieces:[]}
       }]);
     } else {
       // Instant Update
@@ -499,229 +581,605 @@ export default function App() {
       setSelection(null); 
     }
   };
+  queueActionRef.current = queueAction;
 
-  const handleRestart = () => {
-    setGameState(initRandomGame());
+  const resetTransientUi = () => {
     setSelection(null);
     setPendingInteraction(null);
     setDeployModal(null);
     setFastChainOrigin(null);
-    setFastChainTargets([]);
     setFastChainSelected([]);
     setAnimQueue([]);
     setActiveAnim(null);
   };
 
+  const handleRestart = () => {
+    if (isReplaying || isEditing) return;
+    if (isOnline) {
+      online.restart();
+      return;
+    }
+    const fresh = createGameRecord(initRandomGame(undefined, RULE_PRESETS[rulePreset] ?? STANDARD_RULES));
+    const control = TIME_CONTROL_PRESETS[timeControl];
+    setRecord(fresh);
+    setGameState(fresh.initialState);
+    setClock(control ? createClock(control, fresh.initialState.activePlayerIndex, Date.now()) : null);
+    resetTransientUi();
+  };
+
+  // Undo/Redo treat a whole chain-capture sequence as one step.
+  // Against the computer, undo also takes back its replies so the human is to move again.
+  const handleUndo = () => {
+    if (isAnimating || isOnline || isReplaying || isEditing || !canUndo(record)) return;
+    let prev = undo(record, true);
+    while (canUndo(prev) && controllers.includes('HUMAN') && controllers[getCurrentState(prev).activePlayerIndex] !== 'HUMAN') {
+      prev = undo(prev, true);
+    }
+    setRecord(prev);
+    setGameState(getCurrentState(prev));
+    setClock(c => c && resumeClock(c, clockPlayer(getCurrentState(prev)), Date.now())); // Time spent stays spent
+    resetTransientUi();
+  };
+
+  // The local game's clock stands still while playing online
+  const handleJoinOnline = () => {
+    setClock(c => c && pauseClock(c, Date.now()));
+    online.join(lobbyRoomId.trim(), lobbyServerUrl.trim());
+  };
+
+  // Back to the local game we had before joining
+  const handleLeaveOnline = () => {
+    online.leave();
+    setGameState(getCurrentState(record));
+    setClock(c => c && resumeClock(c, clockPlayer(getCurrentState(record)), Date.now()));
+    resetTransientUi();
+  };
+
+  const handleExport = () => {
+    downloadGame(record, clock);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file || isAnimating || isOnline || isReplaying || isEditing) return;
+
+    try {
+      const loaded = deserializeGame(await file.text());
+      const state = getCurrentState(loaded.record);
+      setRecord(loaded.record);
+      setGameState(state);
+      setClock(loaded.clock && resumeClock(loaded.clock, clockPlayer(state), Date.now()));
+      resetTransientUi();
+    } catch (err) {
+      console.warn(err);
+      alert(t('header.importFailed', { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleRedo = () => {
+    if (isAnimating || isOnline || isReplaying || isEditing || !canRedo(record)) return;
+    const next = redo(record, true);
+    setRecord(next);
+    setGameState(getCurrentState(next));
+    setClock(c => c && resumeClock(c, clockPlayer(getCurrentState(next)), Date.now()));
+    resetTransientUi();
+  };
+
+  // --- Replay: the game so far, rebuilt from its initial state and action list ---
+  const startReplay = () => {
+    if (isAnimating || isOnline || isEditing || record.ply === 0) return;
+    const review = replayGameRecord(record.initialState, record.actions.slice(0, record.ply), 0);
+    setClock(c => c && pauseClock(c, Date.now()));
+    resetTransientUi();
+    setReplay(review);
+    setReplayPlaying(false);
+    setGameState(getCurrentState(review));
+  };
+
+  // Shows a ply of the replay; a single step forward animates like a played move
+  const showReplayPly = (ply: number, animate: boolean = false) => {
+    if (!replay) return;
+    const next = jumpToPly(replay, ply);
+    const action = next.actions[next.ply - 1];
+    if (animate && next.ply === replay.ply + 1 && action.type === ActionType.MOVE) {
+      setAnimQueue(prev => [...prev, {
+        type: 'MOVE',
+        from: action.from!,
+        to: action.to!,
+        finalState: getCurrentState(next),
+        stackSnapshot: getCurrentState(replay).board[action.from!.row][action.from!.col] ?? {pieces:[]}
+      }]);
+    } else {
+      setGameState(getCurrentState(next));
+    }
+    setReplay(next);
+  };
+
+  const seekReplay = (ply: number) => {
+    setReplayPlaying(false);
+    showReplayPly(ply);
+  };
+
+  const exitReplay = () => {
+    if (isAnimating) return;
+    setReplay(null);
+    setReplayPlaying(false);
+    setGameState(getCurrentState(record));
+    setClock(c => c && resumeClock(c, clockPlayer(getCurrentState(record)), Date.now()));
+    resetTransientUi();
+  };
+
+  // Playback: next ply once the previous move has finished animating
+  useEffect(() => {
+    if (!replay || !replayPlaying || isAnimating) return;
+    if (replay.ply >= replay.actions.length) {
+      setReplayPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => showReplayPly(replay.ply + 1, true), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [replay, replayPlaying, isAnimating]);
+
+  // --- Position Editor: set up any position, then start a new game from it ---
+  const startEditor = () => {
+    if (isAnimating || isOnline || isReplaying) return;
+    setClock(c => c && pauseClock(c, Date.now()));
+    resetTransientUi();
+    setEditorSquare(null);
+    setIsEditing(true);
+    setGameState(createSetup(gameState));
+  };
+
+  const playFromSetup = () => {
+    const fresh = createGameRecord(startFromSetup(gameState));
+    const control = TIME_CONTROL_PRESETS[timeControl];
+    setIsEditing(false);
+    setRecord(fresh);
+    setGameState(fresh.initialState);
+    setClock(control ? createClock(control, fresh.initialState.activePlayerIndex, Date.now()) : null);
+    resetTransientUi();
+  };
+
+  const exitEditor = () => {
+    setIsEditing(false);
+    setGameState(getCurrentState(record));
+    setClock(c => c && resumeClock(c, clockPlayer(getCurrentState(record)), Date.now()));
+    resetTransientUi();
+  };
+
   const checkStackPossible = () => {
     if (!pendingInteraction) return false;
     const { from, to, isFriendly } = pendingInteraction;
     const src = gameState.board[from.row][from.col]?.pieces || [];
     const dest = gameState.board[to.row][to.col]?.pieces || [];
-    return canStackOn(dest, src, isFriendly).valid;
+    return canStackOn(dest, src, isFriendly, gameState.rules).valid;
   };
 
   return (
-    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-2 font-sans select-none">
+    <LocaleContext.Provider value={locale}>
+      <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-2 font-sans select-none">
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
       
-      {/* Header */}
-      <header className="w-full max-w-2xl flex justify-between items-center mb-4 px-4">
-        <div>
-          <h1 className="text-2xl font-bold text-emerald-400">叠叠象棋 (Stacking Xiangqi)</h1>
-          <div className="text-xs text-slate-400">
-             回合: {gameState.turnCount} | 当前: {gameState.activePlayerIndex === 0 ? '上方玩家' : '下方玩家'}
+        {/* Header */}
+        <header className="w-full max-w-2xl flex justify-between items-center mb-4 px-4">
+          <div>
+            <h1 className="text-2xl font-bold text-emerald-400">{t('app.title')}</h1>
+            <div className="text-xs text-slate-400">
+               {t('header.status', {
+                 turn: gameState.turnCount,
+                 player: gameState.activePlayerIndex === 0 ? t('player.top') : t('player.bottom'),
+                 seed: gameState.seed,
+               })}
+               {aiThinking && <span className="ml-2 text-purple-300 animate-pulse">{t('header.aiThinking')}</span>}
+            </div>
+            <div className="flex flex-wrap gap-2 mt-1 text-xs">
+              <label className="flex items-center gap-1 text-slate-400">
+                {t('header.language')}:
+                <select
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value as Locale)}
+                  className="bg-slate-700 text-slate-100 rounded px-1 py-0.5"
+                >
+                  {(Object.keys(LOCALE_NAMES) as Locale[]).map(l => (
+                    <option key={l} value={l}>{LOCALE_NAMES[l]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1 text-slate-400" title={t('header.rulesHint')}>
+                {t('header.rules')}:
+                <select
+                  value={rulePreset}
+                  disabled={isOnline}
+                  onChange={(e) => setRulePreset(e.target.value)}
+                  className="bg-slate-700 text-slate-100 rounded px-1 py-0.5"
+                >
+                  {Object.keys(RULE_PRESETS).map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1 text-slate-400" title={t('header.timeControlHint')}>
+                {t('header.timeControl')}:
+                <select
+                  value={timeControl}
+                  disabled={isOnline}
+                  onChange={(e) => setTimeControl(e.target.value)}
+                  className="bg-slate-700 text-slate-100 rounded px-1 py-0.5"
+                >
+                  <option value={UNTIMED}>{t('header.untimed')}</option>
+                  {Object.keys(TIME_CONTROL_PRESETS).map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              {([0, 1] as const).map(i => (
+                <label key={i} className="flex items-center gap-1 text-slate-400">
+                  {i === 0 ? t('player.topShort') : t('player.bottomShort')}:
+                  <select
+                    value={controllers[i]}
+                    disabled={isOnline}
+                    onChange={(e) => {
+                      const next: [PlayerController, PlayerController] = [controllers[0], controllers[1]];
+                      next[i] = e.target.value as PlayerController;
+                      setControllers(next);
+                    }}
+                    className="bg-slate-700 text-slate-100 rounded px-1 py-0.5"
+                  >
+                    {PLAYER_CONTROLLERS.map(c => (
+                      <option key={c} value={c}>{t(`controller.${c}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleUndo} disabled={isAnimating || isOnline || isReplaying || isEditing || !canUndo(record)} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.undo')}
+            </button>
+            <button onClick={handleRedo} disabled={isAnimating || isOnline || isReplaying || isEditing || !canRedo(record)} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.redo')}
+            </button>
+            <button onClick={handleExport} disabled={isAnimating || isOnline} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.export')}
+            </button>
+            <button onClick={() => importInputRef.current?.click()} disabled={isAnimating || isOnline || isReplaying || isEditing} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.import')}
+            </button>
+            <button onClick={startReplay} disabled={isAnimating || isOnline || isReplaying || isEditing || record.ply === 0} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.replay')}
+            </button>
+            <button onClick={startEditor} disabled={isAnimating || isOnline || isReplaying || isEditing} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.editPosition')}
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+            <button onClick={handleOfferDraw} disabled={isAnimating || isInputLocked || gameState.isGameOver || gameState.drawOfferBy !== null} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.offerDraw')}
+            </button>
+            <button onClick={handleResign} disabled={isAnimating || isReplaying || isEditing || gameState.isGameOver || resigningPlayer === null} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.resign')}
+            </button>
+            <button onClick={handleRestart} disabled={isAnimating || isReplaying || isEditing || (isOnline && !gameState.isGameOver)} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
+              {t('header.restart')}
+            </button>
           </div>
+        </header>
+
+        {/* Online Lobby */}
+        <div className="w-full max-w-2xl mb-2 px-4 flex flex-wrap gap-2 items-center text-xs">
+          {!isOnline ? (
+            <>
+              <span className="text-slate-400">{t('online.label')}:</span>
+              <input
+                value={lobbyServerUrl}
+                onChange={(e) => setLobbyServerUrl(e.target.value)}
+                className="bg-slate-700 text-slate-100 rounded px-2 py-1 w-44"
+                placeholder="ws://localhost:8787"
+              />
+              <input
+                value={lobbyRoomId}
+                onChange={(e) => setLobbyRoomId(e.target.value)}
+                className="bg-slate-700 text-slate-100 rounded px-2 py-1 w-24"
+                placeholder={t('online.roomPlaceholder')}
+              />
+              <button
+                onClick={handleJoinOnline}
+                disabled={!lobbyRoomId.trim() || isAnimating || isReplaying || isEditing}
+                className="bg-sky-700 hover:bg-sky-600 px-3 py-1 rounded disabled:opacity-50"
+              >
+                {t('online.join')}
+              </button>
+            </>
+          ) : (
+            <>
+              <span className={online.status === 'ONLINE' ? 'text-emerald-400' : 'text-orange-400 animate-pulse'}>
+                {online.status === 'ONLINE' ? t('online.connected') : (online.status === 'CONNECTING' ? t('online.connecting') : t('online.reconnecting'))}
+              </span>
+              <span className="text-slate-400">
+                {t('online.room', { room: online.roomId ?? lobbyRoomId })} | {online.seat === null ? t('online.spectating') : (online.seat === 0 ? t('online.youAreTop') : t('online.youAreBottom'))}
+                {online.seat !== null && ` | ${online.connected[1 - online.seat] ? t('online.opponentOnline') : t('online.opponentOffline')}`}
+              </span>
+              <button onClick={handleLeaveOnline} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded">
+                {t('online.leave')}
+              </button>
+              {online.error && <span className="text-red-400">{online.violation ? describeViolation(online.violation, locale) : online.error}</span>}
+            </>
+          )}
         </div>
-        <button onClick={handleRestart} disabled={isAnimating} className="bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-sm disabled:opacity-50">
-          重新开始
-        </button>
-      </header>
-
-      {/* Top Player (Index 0) Hand */}
-      <div className="w-full max-w-2xl mb-2">
-        <HandView 
-           player={gameState.players[0]} 
-           isCurrentPlayer={gameState.activePlayerIndex === 0}
-           selectedPieceType={selection?.type === 'HAND' ? selection.pieceType : null}
-           onSelectType={handleHandSelect}
-        />
-      </div>
 
-      {/* Game Board Area */}
-      <div className="relative">
-        <BoardView 
-           board={gameState.board} 
-           onCellClick={handleBoardClick}
-           selectedLocation={selection?.type === 'BOARD' ? selection.loc : null}
-           lastActionFrom={gameState.lastAction?.type === ActionType.MOVE ? gameState.lastAction.from : undefined}
-           lastActionTo={gameState.lastAction?.type === ActionType.MOVE ? gameState.lastAction.to : undefined}
-           pendingChainLoc={gameState.pendingChainCapture}
-           activeAnim={activeAnim}
-           fastChainTargets={fastChainTargets}
-           fastChainSelected={fastChainSelected}
-        />
-
-        {/* Interaction Choice Modal */}
-        {pendingInteraction && (
-          <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 rounded backdrop-blur-sm">
-             <div className="bg-slate-800 p-4 rounded-xl border-2 border-orange-500 shadow-2xl w-64 flex flex-col gap-3 animate-in fade-in zoom-in duration-200">
-                <h3 className="text-center font-bold text-orange-400 text-lg">
-                  {pendingInteraction.isFriendly ? "己方互动" : "捕获敌方"}
-                </h3>
-                <p className="text-xs text-center text-slate-300 mb-2">请选择处理方式:</p>
-                
-                <button 
-                  onClick={() => confirmInteraction(CaptureResolution.TO_HAND)}
-                  className="bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded font-bold text-sm flex flex-col items-center"
-                >
-                  <span>{pendingInteraction.isFriendly ? "回收连吃" : "收为己用"}</span>
-                  <span className="text-[10px] font-normal opacity-80">
-                    {pendingInteraction.isFriendly 
-                      ? "(收回此子，可继续连吃)" 
-                      : "(变色并入手牌)"}
-                  </span>
-                </button>
+        {/* Top Player (Index 0) Hand */}
+        <div className="w-full max-w-2xl mb-2">
+          {clock && !isOnline && <div className="flex justify-end mb-1"><ClockView clock={clock} player={0} now={now} /></div>}
+          <HandView 
+             player={gameState.players[0]} 
+             isCurrentPlayer={gameState.activePlayerIndex === 0}
+             selectedPieceType={selection?.type === 'HAND' ? selection.pieceType : null}
+             onSelectType={handleHandSelect}
+          />
+        </div>
 
-                {checkStackPossible() && (
+        {/* Game Board Area */}
+        <div className="relative">
+          <BoardView 
+             board={gameState.board} 
+             onCellClick={handleBoardClick}
+             selectedLocation={isEditing ? editorSquare : (selection?.type === 'BOARD' ? selection.loc : null)}
+             lastActionFrom={gameState.lastAction?.type === ActionType.MOVE ? gameState.lastAction.from : undefined}
+             lastActionTo={gameState.lastAction?.type === ActionType.MOVE ? gameState.lastAction.to : undefined}
+             pendingChainLoc={gameState.pendingChainCapture}
+             activeAnim={activeAnim}
+             fastChainTargets={fastChainTargets}
+             fastChainSelected={fastChainSelected}
+             moveHints={moveHints}
+          />
+
+          {/* Interaction Choice Modal */}
+          {pendingInteraction && (
+            <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 rounded backdrop-blur-sm">
+               <div className="bg-slate-800 p-4 rounded-xl border-2 border-orange-500 shadow-2xl w-64 flex flex-col gap-3 animate-in fade-in zoom-in duration-200">
+                  <h3 className="text-center font-bold text-orange-400 text-lg">
+                    {pendingInteraction.isFriendly ? t('interaction.friendlyTitle') : t('interaction.enemyTitle')}
+                  </h3>
+                  <p className="text-xs text-center text-slate-300 mb-2">{t('interaction.prompt')}</p>
+                
                   <button 
-                    onClick={() => confirmInteraction(CaptureResolution.STACK_IF_POSSIBLE)}
-                    className="bg-blue-600 hover:bg-blue-500 text-white py-2 rounded font-bold text-sm flex flex-col items-center"
+                    onClick={() => confirmInteraction(CaptureResolution.TO_HAND)}
+                    className="bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded font-bold text-sm flex flex-col items-center"
                   >
-                    <span>{pendingInteraction.isFriendly ? "合并叠加" : "镇压叠加"}</span>
+                    <span>{pendingInteraction.isFriendly ? t('interaction.friendlyToHand') : t('interaction.enemyToHand')}</span>
                     <span className="text-[10px] font-normal opacity-80">
                       {pendingInteraction.isFriendly 
-                        ? "(增加层数)" 
-                        : "(直接叠在下方)"}
+                        ? t('interaction.friendlyToHandHint') 
+                        : t('interaction.enemyToHandHint')}
                     </span>
                   </button>
-                )}
 
+                  {checkStackPossible() && (
+                    <button 
+                      onClick={() => confirmInteraction(CaptureResolution.STACK_IF_POSSIBLE)}
+                      className="bg-blue-600 hover:bg-blue-500 text-white py-2 rounded font-bold text-sm flex flex-col items-center"
+                    >
+                      <span>{pendingInteraction.isFriendly ? t('interaction.friendlyStack') : t('interaction.enemyStack')}</span>
+                      <span className="text-[10px] font-normal opacity-80">
+                        {pendingInteraction.isFriendly 
+                          ? t('interaction.friendlyStackHint') 
+                          : t('interaction.enemyStackHint')}
+                      </span>
+                    </button>
+                  )}
+
+                  <button 
+                    onClick={cancelInteraction}
+                    className="mt-2 text-slate-400 hover:text-white text-xs underline"
+                  >
+                    {t('interaction.cancel')}
+                  </button>
+               </div>
+            </div>
+          )}
+
+          {/* Batch Deploy Modal */}
+          {deployModal && (
+             <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 rounded backdrop-blur-sm">
+               <div className="bg-slate-800 p-4 rounded-xl border-2 border-emerald-500 shadow-2xl w-64 flex flex-col gap-4">
+                  <h3 className="text-center font-bold text-emerald-400 text-lg">
+                    {t('deploy.title', { piece: pieceName(locale, deployModal.type) })}
+                  </h3>
+                  <div className="flex flex-col items-center gap-2">
+                     <div className="text-4xl font-bold text-white">{deployModal.current}</div>
+                     <div className="text-xs text-slate-400">{t('deploy.count', { max: deployModal.max })}</div>
+                     <input 
+                        type="range" 
+                        min="1" 
+                        max={deployModal.max} 
+                        value={deployModal.current}
+                        onChange={(e) => setDeployModal({...deployModal, current: parseInt(e.target.value)})}
+                        className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                     />
+                  </div>
+                  <div className="flex gap-2">
+                     <button onClick={() => setDeployModal(null)} className="flex-1 bg-slate-600 hover:bg-slate-500 text-white py-2 rounded font-bold text-xs">{t('common.cancel')}</button>
+                     <button onClick={confirmDeploy} className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded font-bold text-xs">{t('deploy.confirm')}</button>
+                  </div>
+               </div>
+             </div>
+          )}
+
+          {/* Fast Chain Start Button */}
+          {!fastChainOrigin && canFastChain && !pendingInteraction && !deployModal && !isAnimating && (
+             <div className="absolute top-2 right-2 z-30">
                 <button 
-                  onClick={cancelInteraction}
-                  className="mt-2 text-slate-400 hover:text-white text-xs underline"
+                  onClick={startFastChainMode}
+                  className="bg-purple-600 hover:bg-purple-500 text-white px-3 py-2 rounded-lg shadow-lg font-bold text-sm animate-bounce border-2 border-purple-300"
                 >
-                  取消操作
+                  {t('chain.fastButton', { count: fastChainTargets.length })}
                 </button>
              </div>
-          </div>
+          )}
+
+        </div>
+
+        {/* Stack Inspector for the selected stack */}
+        {selection?.type === 'BOARD' && !fastChainOrigin && !isReplaying && (
+          <StackInspectorView
+            state={gameState}
+            loc={selection.loc}
+            canRetrieve={!isInputLocked && !isAnimating && !isChainActive && !gameState.isGameOver}
+            onRetrieve={handleRetrieve}
+            onAnnounce={setAnnouncement}
+          />
+        )}
+
+        {/* Replay Controls and Move List */}
+        {replay && (
+          <ReplayView
+            record={replay}
+            playing={replayPlaying}
+            disabled={isAnimating}
+            onTogglePlay={() => setReplayPlaying(!replayPlaying)}
+            onSeek={seekReplay}
+            onStepForward={() => showReplayPly(replay.ply + 1, true)}
+            onExit={exitReplay}
+          />
         )}
 
-        {/* Batch Deploy Modal */}
-        {deployModal && (
-           <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 rounded backdrop-blur-sm">
-             <div className="bg-slate-800 p-4 rounded-xl border-2 border-emerald-500 shadow-2xl w-64 flex flex-col gap-4">
-                <h3 className="text-center font-bold text-emerald-400 text-lg">
-                  批量部署 ({deployModal.type})
-                </h3>
-                <div className="flex flex-col items-center gap-2">
-                   <div className="text-4xl font-bold text-white">{deployModal.current}</div>
-                   <div className="text-xs text-slate-400">数量选择 (Max: {deployModal.max})</div>
-                   <input 
-                      type="range" 
-                      min="1" 
-                      max={deployModal.max} 
-                      value={deployModal.current}
-                      onChange={(e) => setDeployModal({...deployModal, current: parseInt(e.target.value)})}
-                      className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-                   />
+        {/* Position Editor */}
+        {isEditing && (
+          <PositionEditorView
+            setup={gameState}
+            square={editorSquare}
+            onChange={setGameState}
+            onLoadGame={() => setGameState(createSetup(getCurrentState(record)))}
+            onPlay={playFromSetup}
+            onCancel={exitEditor}
+          />
+        )}
+
+        {/* Fast Chain Controls - OUTSIDE BOARD */}
+        {fastChainOrigin && (
+             <div className="w-full max-w-md mt-4 mb-2 z-30 bg-slate-800 p-3 rounded-xl border-2 border-purple-500 shadow-xl flex gap-2 items-center justify-between">
+                <div className="flex flex-col flex-1">
+                   <span className="text-purple-300 font-bold text-sm">{t('chain.fastMode')}</span>
+                   <span className="text-slate-400 text-xs">{t('chain.selected', { count: fastChainSelected.length })}</span>
                 </div>
                 <div className="flex gap-2">
-                   <button onClick={() => setDeployModal(null)} className="flex-1 bg-slate-600 hover:bg-slate-500 text-white py-2 rounded font-bold text-xs">取消</button>
-                   <button onClick={confirmDeploy} className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded font-bold text-xs">确认部署</button>
+                  <button 
+                     onClick={cancelFastChain}
+                     className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded text-xs"
+                  >
+                     {t('common.cancel')}
+                  </button>
+                  <button 
+                     onClick={executeFastChain}
+                     disabled={fastChainSelected.length === 0}
+                     className={`px-3 py-1 rounded text-xs font-bold ${fastChainSelected.length > 0 ? 'bg-purple-600 hover:bg-purple-500 text-white' : 'bg-slate-700 text-slate-500'}`}
+                  >
+                     {t('chain.execute')}
+                  </button>
                 </div>
              </div>
-           </div>
         )}
 
-        {/* Fast Chain Start Button */}
-        {!fastChainOrigin && fastChainTargets.length > 0 && !pendingInteraction && !deployModal && !isAnimating && (
-           <div className="absolute top-2 right-2 z-30">
-              <button 
-                onClick={startFastChainMode}
-                className="bg-purple-600 hover:bg-purple-500 text-white px-3 py-2 rounded-lg shadow-lg font-bold text-sm animate-bounce border-2 border-purple-300"
-              >
-                ⚡ 快速连吃 ({fastChainTargets.length})
-              </button>
-           </div>
+        {/* Chain Capture Overlay - MOVED OUTSIDE BOARD */}
+        {isChainActive && !pendingInteraction && !deployModal && !isAnimating && (
+             <div className="w-full max-w-md mt-2 mb-2 flex flex-col items-center animate-pulse">
+                <div className="bg-orange-600 text-white px-4 py-1 rounded-t font-bold text-sm w-full text-center">
+                  {t('chain.triggered')}
+                </div>
+                <div className="bg-slate-800 p-2 rounded-b border border-orange-500 flex gap-4 items-center justify-center shadow-lg w-full">
+                   <span className="text-orange-300 text-sm">{t('chain.continuePrompt')}</span>
+                   <button onClick={handlePass} className="bg-red-500 hover:bg-red-600 text-white px-4 py-1 rounded font-bold text-xs">{t('chain.pass')}</button>
+                </div>
+             </div>
         )}
 
-      </div>
+        {/* Draw Offer */}
+        {gameState.drawOfferBy !== null && !gameState.isGameOver && (
+             <div className="w-full max-w-md mb-2 bg-slate-800 p-2 rounded border border-sky-500 flex gap-4 items-center justify-center text-sm">
+                {gameState.drawOfferBy === gameState.activePlayerIndex ? (
+                  <span className="text-sky-300">{t('draw.offered', { player: gameState.drawOfferBy })}</span>
+                ) : (
+                  <>
+                    <span className="text-sky-300">{t('draw.incoming', { player: gameState.drawOfferBy })}</span>
+                    <button onClick={handleAcceptDraw} disabled={isAnimating || isInputLocked} className="bg-sky-600 hover:bg-sky-500 text-white px-4 py-1 rounded font-bold text-xs disabled:opacity-50">{t('draw.accept')}</button>
+                  </>
+                )}
+             </div>
+        )}
 
-      {/* Fast Chain Controls - OUTSIDE BOARD */}
-      {fastChainOrigin && (
-           <div className="w-full max-w-md mt-4 mb-2 z-30 bg-slate-800 p-3 rounded-xl border-2 border-purple-500 shadow-xl flex gap-2 items-center justify-between">
-              <div className="flex flex-col flex-1">
-                 <span className="text-purple-300 font-bold text-sm">快速连吃模式</span>
-                 <span className="text-slate-400 text-xs">已选: {fastChainSelected.length}</span>
-              </div>
-              <div className="flex gap-2">
-                <button 
-                   onClick={cancelFastChain}
-                   className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded text-xs"
-                >
-                   取消
-                </button>
-                <button 
-                   onClick={executeFastChain}
-                   disabled={fastChainSelected.length === 0}
-                   className={`px-3 py-1 rounded text-xs font-bold ${fastChainSelected.length > 0 ? 'bg-purple-600 hover:bg-purple-500 text-white' : 'bg-slate-700 text-slate-500'}`}
-                >
-                   确认执行
-                </button>
-              </div>
-           </div>
-      )}
-
-      {/* Chain Capture Overlay - MOVED OUTSIDE BOARD */}
-      {isChainActive && !pendingInteraction && !deployModal && !isAnimating && (
-           <div className="w-full max-w-md mt-2 mb-2 flex flex-col items-center animate-pulse">
-              <div className="bg-orange-600 text-white px-4 py-1 rounded-t font-bold text-sm w-full text-center">
-                触发连吃!
-              </div>
-              <div className="bg-slate-800 p-2 rounded-b border border-orange-500 flex gap-4 items-center justify-center shadow-lg w-full">
-                 <span className="text-orange-300 text-sm">请继续吃子/回收，或...</span>
-                 <button onClick={handlePass} className="bg-red-500 hover:bg-red-600 text-white px-4 py-1 rounded font-bold text-xs">跳过</button>
-              </div>
-           </div>
-      )}
-
-      {/* Bottom Player (Index 1) Hand */}
-      <div className="w-full max-w-2xl mt-4 mb-8">
-        <HandView 
-           player={gameState.players[1]} 
-           isCurrentPlayer={gameState.activePlayerIndex === 1}
-           selectedPieceType={selection?.type === 'HAND' ? selection.pieceType : null}
-           onSelectType={handleHandSelect}
-        />
-      </div>
+        {/* Bottom Player (Index 1) Hand */}
+        <div className="w-full max-w-2xl mt-4 mb-8">
+          <HandView 
+             player={gameState.players[1]} 
+             isCurrentPlayer={gameState.activePlayerIndex === 1}
+             selectedPieceType={selection?.type === 'HAND' ? selection.pieceType : null}
+             onSelectType={handleHandSelect}
+          />
+          {clock && !isOnline && <div className="flex justify-end mt-1"><ClockView clock={clock} player={1} now={now} /></div>}
+        </div>
 
-      {/* Status Footer */}
-      <div className="text-center text-slate-500 text-xs">
-         {gameState.colorsAssigned 
-           ? `红方: ${gameState.players[0].color === Color.RED ? 'Player 0' : 'Player 1'} | 黑方: ${gameState.players[0].color === Color.BLACK ? 'Player 0' : 'Player 1'}`
-           : "请翻开任意棋子以决定红黑阵营"}
-      </div>
+        {/* Status Footer */}
+        <div className="text-center text-slate-500 text-xs">
+           {gameState.colorsAssigned 
+             ? t('footer.sides', {
+                 red: t('player.numbered', { player: gameState.players[0].color === Color.RED ? 0 : 1 }),
+                 black: t('player.numbered', { player: gameState.players[0].color === Color.BLACK ? 0 : 1 }),
+               })
+             : t('footer.flipToStart')}
+        </div>
 
-      {/* Game Over Modal */}
-      {gameState.isGameOver && (
-        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm">
-          <div className="bg-slate-800 p-8 rounded-2xl border-4 border-emerald-500 text-center max-w-sm w-full mx-4 shadow-2xl">
-             <h2 className="text-4xl font-bold text-emerald-400 mb-4">游戏结束</h2>
-             <p className="text-xl text-white mb-8">
-               获胜者: 玩家 {gameState.winner !== null ? gameState.winner : '?'} 
-               <span className="block text-sm text-slate-400 mt-2">
-                 ({gameState.winner !== null ? (gameState.players[gameState.winner].color === Color.RED ? '红方' : '黑方') : ''})
-               </span>
-             </p>
-             <button 
-               onClick={handleRestart}
-               className="w-full bg-emerald-600 hover:bg-emerald-500 text-white py-3 rounded-xl font-bold text-lg transition-transform hover:scale-105"
-             >
-               再来一局
-             </button>
+        {/* Game Over: dialog, or a banner once dismissed so the final position stays visible */}
+        {gameState.isGameOver && gameOverDismissed && !isReplaying && (
+          <div className="fixed top-2 inset-x-0 z-50 flex justify-center pointer-events-none">
+            <div className="pointer-events-auto bg-slate-800 border-2 border-emerald-500 rounded-xl px-4 py-2 flex gap-4 items-center shadow-2xl text-sm">
+              <span className="text-emerald-300 font-bold">{describeResult(gameState, t)}</span>
+              <button onClick={() => setGameOverDismissed(false)} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs">{t('gameOver.details')}</button>
+              <button onClick={handleRestart} className="bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded text-xs font-bold">{t('gameOver.playAgain')}</button>
+            </div>
           </div>
-        </div>
-      )}
+        )}
+        {gameState.isGameOver && !gameOverDismissed && !isReplaying && (
+          <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm">
+            <div className="bg-slate-800 p-8 rounded-2xl border-4 border-emerald-500 text-center max-w-sm w-full mx-4 shadow-2xl">
+               <h2 className="text-4xl font-bold text-emerald-400 mb-4">{t('gameOver.title')}</h2>
+               {gameState.result && gameState.result.winner === null ? (
+                 <p className="text-xl text-white mb-8">
+                   {t('gameOver.draw')}
+                   <span className="block text-sm text-slate-400 mt-2">({endReasonLabel(gameState.result.reason)})</span>
+                 </p>
+               ) : (
+                 <p className="text-xl text-white mb-8">
+                   {t('gameOver.winner', { player: gameState.winner !== null ? gameState.winner : '?' })}
+                   <span className="block text-sm text-slate-400 mt-2">
+                     ({gameState.winner !== null ? (gameState.players[gameState.winner].color === Color.RED ? t('color.red') : t('color.black')) : ''})
+                   </span>
+                   {gameState.result && gameState.winner !== null && (
+                     <span className="block text-sm text-slate-300 mt-2">
+                       {t('gameOver.loserReason', { player: 1 - gameState.winner, reason: endReasonLabel(gameState.result.reason) })}
+                     </span>
+                   )}
+                 </p>
+               )}
+               <div className="flex gap-2">
+                 <button 
+                   onClick={() => setGameOverDismissed(true)}
+                   className="flex-1 bg-slate-600 hover:bg-slate-500 text-white py-3 rounded-xl font-bold text-lg"
+                 >
+                   {t('gameOver.viewBoard')}
+                 </button>
+                 <button 
+                   onClick={handleRestart}
+                   className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white py-3 rounded-xl font-bold text-lg transition-transform hover:scale-105"
+                 >
+                   {t('gameOver.playAgain')}
+                 </button>
+               </div>
+            </div>
+          </div>
+        )}
 
-    </div>
+      </div>
+    </LocaleContext.Provider>
   );
 }
@@ -1,9 +1,51 @@
 
 import React from 'react';
-import { Board, Location, PieceStack } from './types';
+import { ActionType, Board, Color, Location, PieceStack } from './types';
 import { PieceView } from './PieceView';
+import { MoveHint, MoveHintKind } from './moveHints';
+import { Locale, MessageKey, pieceName } from './i18n';
+import { Translate, useTranslation } from './useLocale';
+import { getStackBaseType } from './gameEngine';
 import type { AnimationStep } from './App';
 
+// Target overlay per kind of legal move
+const HINT_STYLES: Record<MoveHintKind, string> = {
+  [MoveHintKind.MOVE]: 'm-auto w-3 h-3 rounded-full bg-emerald-600/70',
+  [MoveHintKind.CAPTURE]: 'inset-0 rounded border-4 border-red-500/80',
+  [MoveHintKind.MERGE]: 'inset-0 rounded border-4 border-blue-500/80',
+  [MoveHintKind.TO_HAND]: 'inset-0 rounded border-4 border-dashed border-amber-600/80',
+  [MoveHintKind.DEPLOY]: 'inset-0 rounded border-4 border-dotted border-emerald-600/80',
+};
+
+const HINT_LABELS: Record<MoveHintKind, MessageKey> = {
+  [MoveHintKind.MOVE]: 'hint.MOVE',
+  [MoveHintKind.CAPTURE]: 'hint.CAPTURE',
+  [MoveHintKind.MERGE]: 'hint.MERGE',
+  [MoveHintKind.TO_HAND]: 'hint.TO_HAND',
+  [MoveHintKind.DEPLOY]: 'hint.DEPLOY',
+};
+
+const ARROW_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+// Screen-reader label, e.g. "row 2 col 5, Red Chariot stack of 3" (rows and columns count from 1)
+const describeCell = (stack: PieceStack | null, r: number, c: number, t: Translate, locale: Locale): string => {
+  const position = t('cell.position', { row: r + 1, col: c + 1 });
+  if (!stack) return t('cell.empty', { position });
+  const top = stack.pieces[stack.pieces.length - 1];
+  if (!top.faceUp) return t('cell.hidden', { position, size: stack.pieces.length });
+  return t('cell.stack', {
+    position,
+    color: top.color === Color.RED ? t('color.red') : t('color.black'),
+    piece: pieceName(locale, getStackBaseType(stack.pieces)),
+    size: stack.pieces.length,
+  });
+};
+
 interface BoardViewProps {
   board: Board;
   onCellClick: (loc: Location) => void;
@@ -14,6 +56,7 @@ interface BoardViewProps {
   activeAnim?: AnimationStep | null;
   fastChainTargets?: Location[];
   fastChainSelected?: Location[];
+  moveHints?: MoveHint[]; // Legal destinations of the current selection
 }
 
 export const BoardView: React.FC<BoardViewProps> = ({ 
@@ -25,13 +68,52 @@ export const BoardView: React.FC<BoardViewProps> = ({
   pendingChainLoc,
   activeAnim,
   fastChainTargets = [],
-  fastChainSelected = []
+  fastChainSelected = [],
+  moveHints = []
 }) => {
+  // Board dimensions come from the game's rule set (4x8 by default)
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const [hovered, setHovered] = React.useState<Location | null>(null);
+  const { locale, t } = useTranslation();
+
+  // --- Keyboard: one focusable cell (roving tabindex), arrows move it, Enter/Space clicks it ---
+  const [cursor, setCursor] = React.useState<Location>({ row: 0, col: 0 });
+  const [hasFocus, setHasFocus] = React.useState(false);
+  const cellRefs = React.useRef<(HTMLDivElement | null)[]>([]);
+
+  React.useEffect(() => {
+    if (hasFocus) cellRefs.current[cursor.row * cols + cursor.col]?.focus();
+  }, [cursor, hasFocus, cols]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = ARROW_STEPS[e.key];
+    if (step) {
+      e.preventDefault();
+      setCursor(prev => ({
+        row: Math.max(0, Math.min(rows - 1, prev.row + step[0])),
+        col: Math.max(0, Math.min(cols - 1, prev.col + step[1])),
+      }));
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onCellClick(cursor);
+    }
+  };
+
   return (
-    <div className="grid grid-cols-8 gap-1 bg-amber-200 p-2 rounded shadow-2xl border-4 border-amber-800 relative">
-        {/* Board Grid */}
+    <div
+      role="grid"
+      aria-label={t('board.label')}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setHasFocus(true)}
+      onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setHasFocus(false); }}
+      className="grid gap-1 bg-amber-200 p-2 rounded shadow-2xl border-4 border-amber-800 relative"
+      style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
+    >
+        {/* Board Grid (rows only group cells for assistive tech) */}
         {board.map((row, r) => (
-            row.map((stack, c) => {
+          <div key={r} role="row" className="contents">
+            {row.map((stack, c) => {
                 const isSelected = selectedLocation?.row === r && selectedLocation?.col === c;
                 
                 // Highlight Last Move
@@ -45,6 +127,18 @@ export const BoardView: React.FC<BoardViewProps> = ({
                 const isFastChainTarget = fastChainTargets.some(t => t.row === r && t.col === c);
                 const isFastChainSelected = fastChainSelected.some(t => t.row === r && t.col === c);
 
+                // Legal Move Hint (preview on hover)
+                const hint = moveHints.find(h => h.to.row === r && h.to.col === c);
+                const isCursor = cursor.row === r && cursor.col === c;
+                const isHovered = (hovered?.row === r && hovered?.col === c) || (hasFocus && isCursor);
+
+                const label = [
+                  describeCell(stack, r, c, t, locale),
+                  isSelected && t('cell.selected'),
+                  isPendingChain && t('cell.chaining'),
+                  hint && t(HINT_LABELS[hint.kind]),
+                ].filter(Boolean).join(', ');
+
                 let bgClass = 'bg-amber-200'; // Default cell
                 if (isFrom) bgClass = 'bg-yellow-200/50';
                 if (isTo) bgClass = 'bg-green-200/50';
@@ -58,13 +152,24 @@ export const BoardView: React.FC<BoardViewProps> = ({
                 return (
                     <div 
                       key={`${r}-${c}`}
-                      onClick={() => onCellClick({ row: r, col: c })}
+                      ref={el => { cellRefs.current[r * cols + c] = el; }}
+                      role="gridcell"
+                      aria-label={label}
+                      aria-selected={isSelected}
+                      tabIndex={isCursor ? 0 : -1}
+                      onClick={() => {
+                        setCursor({ row: r, col: c });
+                        onCellClick({ row: r, col: c });
+                      }}
+                      onMouseEnter={() => setHovered({ row: r, col: c })}
+                      onMouseLeave={() => setHovered(null)}
                       className={`
                         w-12 h-12 sm:w-14 sm:h-14 
                         flex items-center justify-center 
                         relative border border-amber-700/30 rounded
                         ${bgClass}
                         cursor-pointer
+                        focus:outline-none focus-visible:ring-4 focus-visible:ring-sky-500 focus-visible:z-30
                       `}
                     >
                         {/* Render Stack */}
@@ -75,6 +180,11 @@ export const BoardView: React.FC<BoardViewProps> = ({
                             />
                         )}
 
+                        {hint && (
+                           <div className={`absolute pointer-events-none z-20 ${HINT_STYLES[hint.kind]}`} />
+                        )}
+                        {hint && isHovered && <MovePreview hint={hint} />}
+
                         {/* Fast Chain Overlays (Rendered inside cell for perfect alignment) */}
                         {isFastChainTarget && !isFastChainSelected && (
                            <div className="absolute inset-0 bg-emerald-400/30 rounded animate-pulse border-2 border-emerald-400 pointer-events-none z-20" />
@@ -86,7 +196,8 @@ export const BoardView: React.FC<BoardViewProps> = ({
                         )}
                     </div>
                 );
-            })
+            })}
+          </div>
         ))}
 
         {/* Animated Ghost Piece Layer */}
@@ -104,6 +215,8 @@ export const BoardView: React.FC<BoardViewProps> = ({
                  from={activeAnim.from} 
                  to={activeAnim.to} 
                  stack={activeAnim.stackSnapshot} 
+                 rows={rows}
+                 cols={cols}
               />
            </div>
         )}
@@ -111,8 +224,32 @@ export const BoardView: React.FC<BoardViewProps> = ({
   );
 };
 
+// Resulting stack and weights for each legal action onto the hovered square
+const MovePreview: React.FC<{hint: MoveHint}> = ({hint}) => {
+  const { t } = useTranslation();
+  const { kind } = hint;
+  const showWeights = kind !== MoveHintKind.MOVE && kind !== MoveHintKind.DEPLOY;
+
+  return (
+    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 z-40 bg-slate-900/95 text-white text-[10px] rounded p-1.5 whitespace-nowrap pointer-events-none shadow-xl">
+      <div className="font-bold">{t(HINT_LABELS[kind])}</div>
+      {showWeights && <div className="text-slate-300">{t('hint.weights', { weight: hint.weight, target: hint.targetWeight })}</div>}
+      {hint.outcomes.map((outcome, i) => (
+        <div key={i} className="flex items-center gap-1 mt-1">
+          <PieceView stack={outcome.stack} className="scale-50 -m-3" />
+          <span>
+            {outcome.action.type === ActionType.DEPLOY && `${t('hint.deployCount', { count: outcome.action.deployCount! })} · `}
+            {t('hint.stacked', { weight: outcome.stack.pieces.length })}
+            {outcome.toHand > 0 && ` · ${t('hint.toHand', { count: outcome.toHand })}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // Helper component to handle the CSS transition on mount
-const AnimatedPiece: React.FC<{from: Location, to: Location, stack: PieceStack}> = ({from, to, stack}) => {
+const AnimatedPiece: React.FC<{from: Location, to: Location, stack: PieceStack, rows: number, cols: number}> = ({from, to, stack, rows, cols}) => {
   const [pos, setPos] = React.useState(from);
 
   React.useLayoutEffect(() => {
@@ -124,10 +261,12 @@ const AnimatedPiece: React.FC<{from: Location, to: Location, stack: PieceStack}>
 
   return (
     <div 
-       className="w-[12.5%] h-[25%] flex items-center justify-center transition-all duration-300 ease-out absolute"
+       className="flex items-center justify-center transition-all duration-300 ease-out absolute"
        style={{
-          top: `calc(${pos.row * 25}% + 0.5rem)`,
-          left: `calc(${pos.col * 12.5}% + 0.5rem)`,
+          width: `${100 / cols}%`,
+          height: `${100 / rows}%`,
+          top: `calc(${pos.row * 100 / rows}% + 0.5rem)`,
+          left: `calc(${pos.col * 100 / cols}% + 0.5rem)`,
        }}
     >
        <div className="scale-110 shadow-2xl z-50">
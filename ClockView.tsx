@@ -0,0 +1,34 @@
+import React from 'react';
+import { ClockState, TimeControlType, getRemainingMs, getPeriodsLeft, formatClockTime } from './clock';
+
+interface ClockViewProps {
+  clock: ClockState;
+  player: number;
+  now: number;
+}
+
+const LOW_TIME_MS = 10_000;
+
+export const ClockView: React.FC<ClockViewProps> = ({ clock, player, now }) => {
+  const remaining = getRemainingMs(clock, player, now);
+  const isRunning = clock.running === player;
+  const { control } = clock;
+
+  let detail = '';
+  if (control.type === TimeControlType.FISCHER) detail = `+${control.incrementMs / 1000}s`;
+  if (control.type === TimeControlType.BYO_YOMI) {
+    const periods = getPeriodsLeft(clock, player, now);
+    // Once in overtime the period being played counts as well
+    const shown = periods < control.byoYomiPeriods ? periods + 1 : periods;
+    detail = `${shown}×${control.byoYomiMs / 1000}s`;
+  }
+
+  const color = isRunning ? (remaining < LOW_TIME_MS ? 'text-red-400' : 'text-white') : 'text-slate-500';
+
+  return (
+    <div className={`flex items-baseline gap-2 font-mono ${color}`}>
+      <span className={`text-lg font-bold ${isRunning ? 'bg-slate-700 rounded px-2' : 'px-2'}`}>{formatClockTime(remaining)}</span>
+      {detail && <span className="text-xs text-slate-400">{detail}</span>}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { PlayerState, Color, PieceType, PieceInstance } from './types';
-import { PieceView } from './PieceView';
+import { PieceView, getPieceLabel } from './PieceView';
+import { useTranslation } from './useLocale';
 
 interface HandViewProps {
   player: PlayerState;
@@ -10,6 +11,8 @@ interface HandViewProps {
 }
 
 export const HandView: React.FC<HandViewProps> = ({ player, isCurrentPlayer, selectedPieceType, onSelectType }) => {
+  const { locale, t } = useTranslation();
+
   // Group pieces by type
   const grouped: Record<string, { type: PieceType, count: number, piece: PieceInstance }> = {};
 
@@ -26,8 +29,8 @@ export const HandView: React.FC<HandViewProps> = ({ player, isCurrentPlayer, sel
   const bgClass = isCurrentPlayer ? 'bg-opacity-20 bg-yellow-200' : 'bg-transparent';
   
   const playerLabel = player.color === Color.UNKNOWN 
-    ? '未定阵营' 
-    : (player.color === Color.RED ? '红方手牌' : '黑方手牌');
+    ? t('hand.undecided') 
+    : (player.color === Color.RED ? t('hand.red') : t('hand.black'));
 
   return (
     <div className={`flex flex-wrap gap-2 p-2 rounded-lg border-2 transition-colors ${borderColor} ${bgClass} min-h-[80px] items-center`}>
@@ -35,10 +38,23 @@ export const HandView: React.FC<HandViewProps> = ({ player, isCurrentPlayer, sel
           {playerLabel}
        </div>
        
-       {sortedGroups.length === 0 && <div className="text-xs text-slate-400 italic pl-2">无棋子</div>}
+       {sortedGroups.length === 0 && <div className="text-xs text-slate-400 italic pl-2">{t('hand.empty')}</div>}
 
        {sortedGroups.map(group => (
-         <div key={group.type} className="relative">
+         <div
+           key={group.type}
+           role="button"
+           tabIndex={isCurrentPlayer ? 0 : -1}
+           aria-pressed={isCurrentPlayer && selectedPieceType === group.type}
+           aria-label={`${getPieceLabel(group.type, group.piece.color, locale)} x${group.count}`}
+           onKeyDown={(e) => {
+             if (isCurrentPlayer && (e.key === 'Enter' || e.key === ' ')) {
+               e.preventDefault();
+               onSelectType(group.type);
+             }
+           }}
+           className="relative rounded-full focus:outline-none focus-visible:ring-4 focus-visible:ring-sky-500"
+         >
             <PieceView 
               piece={group.piece} 
               isSelected={isCurrentPlayer && selectedPieceType === group.type}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Color, PieceType, PieceInstance, PieceStack } from './types';
+import { Locale, pieceName } from './i18n';
+import { useTranslation } from './useLocale';
 
 // --- Assets / mappings ---
 const CHAR_MAP: Record<Color, Record<PieceType, string>> = {
@@ -32,6 +34,10 @@ const CHAR_MAP: Record<Color, Record<PieceType, string>> = {
   }
 };
 
+// Glyph plus localized name, e.g. "帅 将帅" / "帅 General" (glyphs are the same in every locale)
+export const getPieceLabel = (type: PieceType, color: Color, locale: Locale): string =>
+  `${CHAR_MAP[color][type]} ${pieceName(locale, type)}`;
+
 interface PieceViewProps {
   piece?: PieceInstance; // For single piece (Hand)
   stack?: PieceStack;    // For board stack
@@ -41,6 +47,8 @@ interface PieceViewProps {
 }
 
 export const PieceView: React.FC<PieceViewProps> = ({ piece, stack, isSelected, onClick, className = '' }) => {
+  const { locale, t } = useTranslation();
+
   // Determine what to show
   let displayPiece: PieceInstance | null = null;
   let count = 0;
@@ -67,7 +75,7 @@ export const PieceView: React.FC<PieceViewProps> = ({ piece, stack, isSelected,
   if (!isFaceUp) {
     return (
       <div onClick={onClick} className={`${baseStyle} bg-slate-700 border-slate-600 ${className}`}>
-        <div className="text-slate-500 text-xs">暗</div>
+        <div className="text-slate-500 text-xs">{t('piece.hidden')}</div>
       </div>
     );
   }
@@ -80,7 +88,7 @@ export const PieceView: React.FC<PieceViewProps> = ({ piece, stack, isSelected,
   const selectionRing = isSelected ? 'ring-4 ring-yellow-400 scale-110 z-10' : '';
 
   return (
-    <div onClick={onClick} className={`${baseStyle} ${bgColor} ${borderColor} ${selectionRing} ${className}`}>
+    <div onClick={onClick} title={getPieceLabel(type, color, locale)} className={`${baseStyle} ${bgColor} ${borderColor} ${selectionRing} ${className}`}>
       <span className={`text-2xl font-bold font-serif ${textColor}`}>
         {CHAR_MAP[color][type]}
       </span>
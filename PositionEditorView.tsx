@@ -0,0 +1,163 @@
+
+import React from 'react';
+import { Color, GameState, Location, PieceType } from './types';
+import { PieceView, getPieceLabel } from './PieceView';
+import { formatSquare } from './squares';
+import {
+  addHandPiece,
+  addPiece,
+  clearSquare,
+  createEmptySetup,
+  describeSetupProblem,
+  removeHandPiece,
+  removePiece,
+  setActivePlayer,
+  setPlayerColors,
+  togglePieceFaceUp,
+  validateSetup,
+} from './positionEditor';
+import { useTranslation } from './useLocale';
+
+interface PositionEditorViewProps {
+  setup: GameState;
+  square: Location | null; // Square picked on the board
+  onChange: (setup: GameState) => void;
+  onLoadGame: () => void;  // Back to the position of the game in progress
+  onPlay: () => void;      // Only offered for a valid setup
+  onCancel: () => void;
+}
+
+// Analysis mode: build a position piece by piece, then play on from it
+export const PositionEditorView: React.FC<PositionEditorViewProps> = ({ setup, square, onChange, onLoadGame, onPlay, onCancel }) => {
+  const { locale, t } = useTranslation();
+  const [type, setType] = React.useState<PieceType>(PieceType.SOLDIER);
+  const [color, setColor] = React.useState<Color.RED | Color.BLACK>(Color.RED);
+  const [faceUp, setFaceUp] = React.useState(true);
+
+  const problems = React.useMemo(() => validateSetup(setup), [setup]);
+  const stack = square ? setup.board[square.row][square.col] : null;
+  const colorsValue = setup.colorsAssigned ? setup.players[0].color : 'NONE';
+
+  const buttonClass = 'bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded disabled:opacity-50';
+  const selectClass = 'bg-slate-700 text-slate-100 rounded px-1 py-0.5';
+
+  return (
+    <div className="w-full max-w-md mt-2 mb-2 bg-slate-800 p-3 rounded-xl border-2 border-teal-500 shadow-xl flex flex-col gap-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-teal-300 font-bold text-sm">{t('editor.title')}</span>
+        <div className="flex gap-2">
+          <button onClick={onLoadGame} className={buttonClass}>{t('editor.fromGame')}</button>
+          <button onClick={() => onChange(createEmptySetup(setup.rules))} className={buttonClass}>{t('editor.clearBoard')}</button>
+        </div>
+      </div>
+
+      {/* Palette: the piece that "stack on" and "add to hand" use */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-400">{t('editor.piece')}:</span>
+        <select value={type} onChange={(e) => setType(e.target.value as PieceType)} className={selectClass}>
+          {Object.values(PieceType).map(p => (
+            <option key={p} value={p}>{getPieceLabel(p, color, locale)}</option>
+          ))}
+        </select>
+        <select value={color} onChange={(e) => setColor(e.target.value as Color.RED | Color.BLACK)} className={selectClass}>
+          <option value={Color.RED}>{t('color.red')}</option>
+          <option value={Color.BLACK}>{t('color.black')}</option>
+        </select>
+        <label className="flex items-center gap-1 text-slate-300">
+          <input type="checkbox" checked={faceUp} onChange={(e) => setFaceUp(e.target.checked)} />
+          {t('editor.faceUp')}
+        </label>
+      </div>
+
+      {/* Selected square, bottom -> top; clicking a piece flips it */}
+      <div className="flex flex-col gap-2 border-t border-slate-700 pt-2">
+        {square ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-slate-300 font-bold">{t('editor.square', { square: formatSquare(square) })}</span>
+              <div className="flex gap-2">
+                <button onClick={() => onChange(addPiece(setup, square, type, color, faceUp))} className={buttonClass}>{t('editor.addPiece')}</button>
+                <button onClick={() => onChange(clearSquare(setup, square))} disabled={!stack} className={buttonClass}>{t('editor.clearSquare')}</button>
+              </div>
+            </div>
+            {stack && (
+              <div className="flex flex-wrap gap-2 items-end">
+                {stack.pieces.map((piece, i) => (
+                  <div key={piece.id} className="flex flex-col items-center gap-1">
+                    <PieceView piece={piece} onClick={() => onChange(togglePieceFaceUp(setup, square, i))} />
+                    <span className="text-slate-400">{i + 1}. {getPieceLabel(piece.type, piece.color, locale)}</span>
+                    <div className="flex gap-1">
+                      <button onClick={() => onChange(togglePieceFaceUp(setup, square, i))} className={buttonClass}>{t('editor.flip')}</button>
+                      <button onClick={() => onChange(removePiece(setup, square, i))} className={buttonClass}>{t('editor.remove')}</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <span className="text-slate-500">{t('editor.pickSquare')}</span>
+        )}
+      </div>
+
+      {/* Hands */}
+      {([0, 1] as const).map(player => {
+        const { pieces } = setup.players[player].hand;
+        const counts = new Map<PieceType, number>();
+        pieces.forEach(p => counts.set(p.type, (counts.get(p.type) ?? 0) + 1));
+        return (
+          <div key={player} className="flex flex-wrap items-center gap-2 border-t border-slate-700 pt-2">
+            <span className="text-slate-300 font-bold">{t('editor.hand', { player: t('player.numbered', { player }) })}</span>
+            {[...counts].map(([handType, count]) => (
+              <button key={handType} onClick={() => onChange(removeHandPiece(setup, player, handType))} title={t('editor.remove')} className={buttonClass}>
+                {getPieceLabel(handType, pieces.find(p => p.type === handType)!.color, locale)} ×{count} −
+              </button>
+            ))}
+            <button onClick={() => onChange(addHandPiece(setup, player, type, color))} className={`${buttonClass} ml-auto`}>{t('editor.addToHand')}</button>
+          </div>
+        );
+      })}
+
+      {/* Side to move and colors */}
+      <div className="flex flex-wrap items-center gap-3 border-t border-slate-700 pt-2">
+        <label className="flex items-center gap-1 text-slate-400">
+          {t('editor.toMove')}:
+          <select value={setup.activePlayerIndex} onChange={(e) => onChange(setActivePlayer(setup, parseInt(e.target.value)))} className={selectClass}>
+            {[0, 1].map(player => <option key={player} value={player}>{t('player.numbered', { player })}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-slate-400">
+          {t('editor.colors')}:
+          <select
+            value={colorsValue}
+            onChange={(e) => onChange(setPlayerColors(setup, e.target.value === 'NONE' ? null : e.target.value as Color.RED | Color.BLACK))}
+            className={selectClass}
+          >
+            <option value="NONE">{t('editor.colorsUnassigned')}</option>
+            <option value={Color.RED}>{t('editor.player0Red')}</option>
+            <option value={Color.BLACK}>{t('editor.player0Black')}</option>
+          </select>
+        </label>
+      </div>
+
+      {/* Validation */}
+      <div className="flex items-end justify-between gap-2 border-t border-slate-700 pt-2">
+        {problems.length > 0 ? (
+          <ul className="flex-1 text-red-400 list-disc list-inside">
+            {problems.map((problem, i) => <li key={i}>{describeSetupProblem(problem, locale)}</li>)}
+          </ul>
+        ) : (
+          <span className="flex-1 text-emerald-400">{t('editor.valid')}</span>
+        )}
+        <button onClick={onCancel} className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded">{t('editor.cancel')}</button>
+        <button
+          onClick={onPlay}
+          disabled={problems.length > 0}
+          className="bg-teal-600 hover:bg-teal-500 text-white px-3 py-1 rounded font-bold disabled:opacity-50"
+        >
+          {t('editor.play')}
+        </button>
+      </div>
+    </div>
+  );
+};
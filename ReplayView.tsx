@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { GameRecord, groupMoves } from './gameRecord';
+import { formatActions } from './notation';
+import { useTranslation } from './useLocale';
+
+interface ReplayViewProps {
+  record: GameRecord;  // The game under review; record.ply is the position shown
+  playing: boolean;
+  disabled: boolean;   // Step and seek wait for the current animation
+  onTogglePlay: () => void;
+  onSeek: (ply: number) => void;
+  onStepForward: () => void;
+  onExit: () => void;
+}
+
+export const ReplayView: React.FC<ReplayViewProps> = ({ record, playing, disabled, onTogglePlay, onSeek, onStepForward, onExit }) => {
+  const { t } = useTranslation();
+  const groups = React.useMemo(() => groupMoves(record), [record.actions]);
+  const total = record.actions.length;
+  const { ply } = record;
+
+  // Keep the current entry in view while playing or scrubbing
+  const currentRef = React.useRef<HTMLLIElement | null>(null);
+  React.useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [ply]);
+
+  const buttonClass = 'bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded text-xs disabled:opacity-50';
+
+  return (
+    <div className="w-full max-w-md mt-2 mb-2 bg-slate-800 p-3 rounded-xl border-2 border-sky-500 shadow-xl flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sky-300 font-bold text-sm">{t('replay.title')}</span>
+        <span className="text-slate-400 text-xs">{t('replay.position', { ply, total })}</span>
+        <button onClick={onExit} disabled={disabled} className={buttonClass}>{t('replay.exit')}</button>
+      </div>
+
+      {/* Timeline */}
+      <input
+        type="range"
+        min={0}
+        max={total}
+        value={ply}
+        disabled={disabled}
+        onChange={(e) => onSeek(parseInt(e.target.value))}
+        className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
+      />
+      <div className="flex gap-2 justify-center">
+        <button onClick={() => onSeek(0)} disabled={disabled || ply === 0} className={buttonClass}>{t('replay.toStart')}</button>
+        <button onClick={() => onSeek(ply - 1)} disabled={disabled || ply === 0} className={buttonClass}>{t('replay.stepBack')}</button>
+        <button onClick={onTogglePlay} disabled={!playing && ply === total} className={`${buttonClass} w-20 font-bold`}>
+          {playing ? t('replay.pause') : t('replay.play')}
+        </button>
+        <button onClick={onStepForward} disabled={disabled || ply === total} className={buttonClass}>{t('replay.stepForward')}</button>
+        <button onClick={() => onSeek(total)} disabled={disabled || ply === total} className={buttonClass}>{t('replay.toEnd')}</button>
+      </div>
+
+      {/* Move list: one entry per turn, chain captures together */}
+      <div className="text-xs text-slate-400">{t('replay.moves')}</div>
+      <ol className="max-h-40 overflow-y-auto text-xs font-mono flex flex-col gap-0.5">
+        {groups.map((group, i) => {
+          const isCurrent = group.startPly < ply && ply <= group.endPly;
+          return (
+            <li
+              key={group.startPly}
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => !disabled && onSeek(group.endPly)}
+              className={`px-2 py-0.5 rounded cursor-pointer flex gap-2 ${isCurrent ? 'bg-sky-700 text-white' : 'hover:bg-slate-700 text-slate-300'}`}
+            >
+              <span className="text-slate-500 w-6 text-right">{i + 1}.</span>
+              <span className="w-16">{t('player.numbered', { player: group.player })}</span>
+              <span>{formatActions(group.actions)}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
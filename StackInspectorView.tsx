@@ -0,0 +1,105 @@
+
+import React from 'react';
+import { ActionType, GameState, Location, PieceInstance } from './types';
+import { applyAction, getStackBaseType } from './gameEngine';
+import { PieceView, getPieceLabel } from './PieceView';
+import { formatSquare } from './squares';
+import { pieceName } from './i18n';
+import { describeViolation } from './violations';
+import { useTranslation } from './useLocale';
+
+interface StackInspectorViewProps {
+  state: GameState;
+  loc: Location;
+  canRetrieve: boolean; // The player to move may act on this stack now
+  onRetrieve: (pieceIds: string[]) => void;
+  onAnnounce: (message: string) => void; // For the live region: a piece was picked or unpicked
+}
+
+// Every piece of a stack bottom -> top, with multi-select for RETRIEVE
+export const StackInspectorView: React.FC<StackInspectorViewProps> = ({ state, loc, canRetrieve, onRetrieve, onAnnounce }) => {
+  const { locale, t } = useTranslation();
+  const [picked, setPicked] = React.useState<string[]>([]);
+  const stack = state.board[loc.row][loc.col];
+
+  // Selections do not carry over to another stack or position
+  React.useEffect(() => setPicked([]), [stack, loc.row, loc.col]);
+
+  // The engine decides whether the pick is a legal RETRIEVE (IDs in stack order)
+  const ids = stack ? stack.pieces.filter(p => picked.includes(p.id)).map(p => p.id) : [];
+  const result = canRetrieve && ids.length > 0
+    ? applyAction(state, { type: ActionType.RETRIEVE, playerId: state.activePlayerIndex, retrieveFrom: loc, retrievePieceIds: ids })
+    : null;
+
+  if (!stack) return null;
+  const baseType = getStackBaseType(stack.pieces);
+  const limit = state.rules.stackLimits[baseType]; // The rule set's STACK_LIMITS
+
+  const pieceLabel = (piece: PieceInstance, i: number) =>
+    t('stack.piece', { level: i + 1, piece: piece.faceUp ? getPieceLabel(piece.type, piece.color, locale) : t('piece.hidden') });
+
+  const toggle = (piece: PieceInstance, i: number) => {
+    const wasPicked = picked.includes(piece.id);
+    setPicked(wasPicked ? picked.filter(p => p !== piece.id) : [...picked, piece.id]);
+    onAnnounce(t(wasPicked ? 'stack.unpicked' : 'stack.picked', { piece: pieceLabel(piece, i) }));
+  };
+
+  return (
+    <div className="w-full max-w-md mt-2 mb-2 bg-slate-800 p-3 rounded-xl border-2 border-amber-600 shadow-xl flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-amber-300 font-bold text-sm">{t('stack.title', { square: formatSquare(loc) })}</span>
+        <span className="text-slate-300">{t('stack.base', { piece: pieceName(locale, baseType) })}</span>
+        <span className={stack.pieces.length >= limit ? 'text-orange-400' : 'text-slate-400'}>
+          {t('stack.size', { size: stack.pieces.length, limit })}
+        </span>
+      </div>
+
+      <div className="text-slate-500">{t('stack.order')}</div>
+      <div className="flex flex-wrap gap-2 items-end">
+        {stack.pieces.map((piece, i) => (
+          <div key={piece.id} className={`flex flex-col items-center gap-1 ${canRetrieve ? '' : 'pointer-events-none'}`}>
+            <div
+              role="button"
+              tabIndex={canRetrieve ? 0 : -1}
+              aria-disabled={!canRetrieve}
+              aria-pressed={picked.includes(piece.id)}
+              aria-label={pieceLabel(piece, i)}
+              onKeyDown={(e) => {
+                if (canRetrieve && (e.key === 'Enter' || e.key === ' ')) {
+                  e.preventDefault();
+                  toggle(piece, i);
+                }
+              }}
+              className="rounded-full focus:outline-none focus-visible:ring-4 focus-visible:ring-sky-500"
+            >
+              <PieceView piece={piece} isSelected={picked.includes(piece.id)} onClick={() => toggle(piece, i)} />
+            </div>
+            <span className="text-slate-500" aria-hidden="true">{i + 1}</span>
+          </div>
+        ))}
+      </div>
+
+      {canRetrieve && (
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-slate-400">
+            {result?.error ? <span className="text-red-400">{describeViolation(result.error, locale)}</span> : t('stack.selectHint')}
+          </span>
+          <button
+            onClick={() => setPicked([])}
+            disabled={picked.length === 0}
+            className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded disabled:opacity-50"
+          >
+            {t('stack.clear')}
+          </button>
+          <button
+            onClick={() => onRetrieve(ids)}
+            disabled={!result || !!result.error}
+            className="bg-amber-600 hover:bg-amber-500 text-white px-3 py-1 rounded font-bold disabled:opacity-50"
+          >
+            {t('stack.retrieve', { count: ids.length })}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
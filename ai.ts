@@ -0,0 +1,245 @@
+
+import { GameState, PlayerAction, ActionType, PieceType, PieceInstance, Color } from './types';
+import { applyAction, getLegalActions, isDrawAction } from './gameEngine';
+import { createRng, randomSeed, Rng } from './rng';
+import { PlayerView, getPlayerView, isRedactedPiece } from './playerView';
+
+// --- Config ---
+
+export enum AiDifficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+}
+
+interface DifficultyConfig {
+  maxDepth: number;     // Plies searched (each chain step counts as one ply)
+  samples: number;      // Determinizations of the hidden pieces
+  maxBranching: number; // Actions expanded per inner node after ordering
+  timeMs: number;       // Soft budget; deepest fully completed iteration wins
+  noise: number;        // Random jitter added to root scores
+}
+
+const DIFFICULTY_CONFIG: Record<AiDifficulty, DifficultyConfig> = {
+  [AiDifficulty.EASY]: { maxDepth: 1, samples: 2, maxBranching: 16, timeMs: 300, noise: 3 },
+  [AiDifficulty.MEDIUM]: { maxDepth: 2, samples: 4, maxBranching: 24, timeMs: 1500, noise: 0.5 },
+  [AiDifficulty.HARD]: { maxDepth: 3, samples: 6, maxBranching: 32, timeMs: 4000, noise: 0 },
+};
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  [PieceType.GENERAL]: 6,
+  [PieceType.ADVISOR]: 4,
+  [PieceType.ELEPHANT]: 4,
+  [PieceType.CHARIOT]: 6,
+  [PieceType.HORSE]: 4,
+  [PieceType.CANNON]: 5,
+  [PieceType.SOLDIER]: 2,
+};
+
+const WIN_SCORE = 10000;
+const HAND_FACTOR = 0.9;   // Pieces in hand still need a tempo to deploy
+const WEIGHT_BONUS = 0.5;  // Per extra layer: heavier stacks capture more
+
+class SearchTimeout extends Error {}
+
+// --- Hidden Information ---
+
+/**
+ * Returns a copy of the redacted view where every face-down piece gets a random identity drawn
+ * from the view's public pool of still-hidden identities. The searcher only ever sees such
+ * samples, never the real type/color of unrevealed pieces.
+ */
+export const determinize = (view: PlayerView, rng: Rng): GameState => {
+  const copy: GameState = JSON.parse(JSON.stringify(view));
+  const hidden: PieceInstance[] = [];
+
+  for (const row of copy.board) {
+    for (const stack of row) {
+      if (stack) hidden.push(...stack.pieces.filter(isRedactedPiece));
+    }
+  }
+  for (const player of copy.players) hidden.push(...player.hand.pieces.filter(isRedactedPiece));
+
+  const identities: { type: PieceType; color: Color }[] = [];
+  for (const entry of view.hiddenPool) {
+    for (let i = 0; i < entry.count; i++) identities.push({ type: entry.type, color: entry.color });
+  }
+  if (identities.length !== hidden.length) throw new Error('Hidden pool does not match face-down pieces');
+
+  for (let i = identities.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [identities[i], identities[j]] = [identities[j], identities[i]];
+  }
+  hidden.forEach((p, i) => {
+    p.type = identities[i].type;
+    p.color = identities[i].color;
+  });
+  return copy;
+};
+
+// --- Evaluation ---
+
+/**
+ * Static evaluation from `playerIndex`'s point of view.
+ * A stack counts for whoever owns its (face-up) top piece; hands count for their owner.
+ */
+export const evaluate = (state: GameState, playerIndex: number): number => {
+  if (state.isGameOver) {
+    if (state.winner === null) return 0;
+    return state.winner === playerIndex ? WIN_SCORE : -WIN_SCORE;
+  }
+  if (!state.colorsAssigned) return 0;
+
+  const myColor = state.players[playerIndex].color;
+  let score = 0;
+
+  for (const row of state.board) {
+    for (const stack of row) {
+      if (!stack) continue;
+      const top = stack.pieces[stack.pieces.length - 1];
+      if (!top.faceUp) continue;
+      const sign = top.color === myColor ? 1 : -1;
+      let value = (stack.pieces.length - 1) * WEIGHT_BONUS;
+      for (const p of stack.pieces) value += PIECE_VALUES[p.type];
+      score += sign * value;
+    }
+  }
+
+  state.players.forEach((player, i) => {
+    const sign = i === playerIndex ? 1 : -1;
+    for (const p of player.hand.pieces) score += sign * PIECE_VALUES[p.type] * HAND_FACTOR;
+  });
+
+  return score;
+};
+
+// --- Search ---
+
+// Captures first (they prune best), then flips, quiet moves, retrieves, deploys.
+const actionPriority = (state: GameState, action: PlayerAction): number => {
+  switch (action.type) {
+    case ActionType.MOVE:
+      return action.to && state.board[action.to.row][action.to.col] ? 0 : 2;
+    case ActionType.FLIP:
+      return 1;
+    case ActionType.PASS:
+      return 3;
+    case ActionType.RETRIEVE:
+      return 4;
+    case ActionType.DEPLOY:
+      return 5;
+    case ActionType.OFFER_DRAW:
+    case ActionType.ACCEPT_DRAW:
+    case ActionType.RESIGN:
+    case ActionType.TIMEOUT:
+      return 6;
+  }
+};
+
+const orderActions = (state: GameState, actions: PlayerAction[]): PlayerAction[] => {
+  return actions
+    .map((action, i) => ({ action, key: actionPriority(state, action) * 1000 + i }))
+    .sort((a, b) => a.key - b.key)
+    .map(x => x.action);
+};
+
+interface SearchContext {
+  aiPlayer: number;
+  deadline: number;
+  maxBranching: number;
+}
+
+/**
+ * Plain minimax with alpha-beta. Not negamax: during a chain capture the same player
+ * moves several times in a row, so the maximizing side is read from activePlayerIndex.
+ */
+const search = (state: GameState, depth: number, alpha: number, beta: number, ctx: SearchContext): number => {
+  if (Date.now() > ctx.deadline) throw new SearchTimeout();
+  if (state.isGameOver || depth === 0) {
+    // Prefer quicker wins / slower losses
+    const score = evaluate(state, ctx.aiPlayer);
+    return Math.abs(score) >= WIN_SCORE ? score + Math.sign(score) * depth : score;
+  }
+
+  const actions = orderActions(state, getLegalActions(state, state.activePlayerIndex).filter(a => !isDrawAction(a))).slice(0, ctx.maxBranching);
+  if (actions.length === 0) return evaluate(state, ctx.aiPlayer);
+
+  const maximizing = state.activePlayerIndex === ctx.aiPlayer;
+  let best = maximizing ? -Infinity : Infinity;
+
+  for (const action of actions) {
+    const next = applyAction(state, action);
+    if (next.error) continue;
+    const score = search(next, depth - 1, alpha, beta, ctx);
+
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) break;
+  }
+  return best === Infinity || best === -Infinity ? evaluate(state, ctx.aiPlayer) : best;
+};
+
+/**
+ * Picks an action for the active player of `state`. The search only works from that
+ * player's redacted view, so passing the authoritative state leaks nothing.
+ * Averages the search score of every root action over several determinizations
+ * (expected value over the hidden pieces), deepening until the time budget runs out.
+ * Returns null when the player has no legal action.
+ */
+export const chooseAiAction = (state: GameState, difficulty: AiDifficulty, seed: number = randomSeed()): PlayerAction | null => {
+  const config = DIFFICULTY_CONFIG[difficulty];
+  const rng = createRng(seed);
+  const aiPlayer = state.activePlayerIndex;
+
+  const view = getPlayerView(state, aiPlayer);
+
+  // Accept a draw offer when behind; otherwise playing on declines it. The AI never offers.
+  if (view.drawOfferBy === 1 - aiPlayer && evaluate(view, aiPlayer) < 0) {
+    return { type: ActionType.ACCEPT_DRAW, playerId: aiPlayer };
+  }
+
+  const rootActions = getLegalActions(view, aiPlayer).filter(a => !isDrawAction(a));
+  if (rootActions.length === 0) return null;
+  if (rootActions.length === 1) return rootActions[0];
+
+  const samples = Array.from({ length: config.samples }, () => determinize(view, rng));
+  const ctx: SearchContext = { aiPlayer, deadline: Date.now() + config.timeMs, maxBranching: config.maxBranching };
+
+  // Scores from the deepest iteration that finished for every sample
+  let bestScores: number[] | null = null;
+
+  for (let depth = 1; depth <= config.maxDepth; depth++) {
+    const totals = new Array(rootActions.length).fill(0);
+    try {
+      for (const sample of samples) {
+        rootActions.forEach((action, i) => {
+          const next = applyAction(sample, action);
+          totals[i] += next.error ? -WIN_SCORE : search(next, depth - 1, -Infinity, Infinity, ctx);
+        });
+      }
+    } catch (e) {
+      if (e instanceof SearchTimeout && bestScores) break;
+      if (!(e instanceof SearchTimeout)) throw e;
+      // Even depth 1 timed out: fall back to whatever partial totals we have
+      bestScores = totals;
+      break;
+    }
+    bestScores = totals;
+  }
+
+  let bestIndex = 0;
+  let bestValue = -Infinity;
+  bestScores!.forEach((total, i) => {
+    const value = total / samples.length + (rng() - 0.5) * config.noise;
+    if (value > bestValue) {
+      bestValue = value;
+      bestIndex = i;
+    }
+  });
+  return rootActions[bestIndex];
+};
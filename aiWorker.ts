@@ -0,0 +1,23 @@
+
+import { GameState, PlayerAction } from './types';
+import { AiDifficulty, chooseAiAction } from './ai';
+
+// --- Worker protocol ---
+
+export interface AiRequest {
+  requestId: number;
+  state: GameState;
+  difficulty: AiDifficulty;
+}
+
+export interface AiResponse {
+  requestId: number;
+  action: PlayerAction | null;
+}
+
+// Runs the search off the main thread so the board stays responsive
+self.onmessage = (e: MessageEvent<AiRequest>) => {
+  const { requestId, state, difficulty } = e.data;
+  const response: AiResponse = { requestId, action: chooseAiAction(state, difficulty) };
+  self.postMessage(response);
+};
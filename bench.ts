@@ -0,0 +1,65 @@
+
+import { GameState, PlayerAction, RuleSet, STANDARD_RULES } from './types';
+import { initRandomGame, applyAction, getLegalActions, isDrawAction } from './gameEngine';
+import { createRng } from './rng';
+
+/*
+ * Engine micro-benchmarks.
+ *
+ *   npm run bench
+ *
+ * "deep clone" replays the same work with the state JSON-cloned before every applyAction,
+ * which is what applyAction itself did before it switched to copy-on-write.
+ */
+
+const GAMES = 10;
+const VALIDATE_EVERY = 5; // Positions sampled for the all-legal-actions run
+const RULES: RuleSet = { ...STANDARD_RULES, turnLimit: 500 }; // Random self-play needs a bound to end
+
+type Step = { state: GameState; action: PlayerAction };
+
+// Seeded random self-play, recording every position and the action played from it
+const recordGames = (): Step[] => {
+  const steps: Step[] = [];
+  for (let seed = 1; seed <= GAMES; seed++) {
+    const rng = createRng(seed);
+    let state = initRandomGame(seed, RULES);
+    while (!state.isGameOver) {
+      const actions = getLegalActions(state, state.activePlayerIndex).filter(a => !isDrawAction(a));
+      const action = actions[Math.floor(rng() * actions.length)];
+      steps.push({ state, action });
+      state = applyAction(state, action);
+    }
+  }
+  return steps;
+};
+
+const deepCloneApply = (state: GameState, action: PlayerAction): GameState =>
+  applyAction(JSON.parse(JSON.stringify(state)), action);
+
+const time = (run: () => void): number => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+const compare = (name: string, run: (apply: typeof applyAction) => void) => {
+  run(applyAction); // Warm-up
+  const before = time(() => run(deepCloneApply));
+  const after = time(() => run(applyAction));
+  console.log(`${name.padEnd(28)} deep clone ${before.toFixed(0).padStart(6)} ms   copy-on-write ${after.toFixed(0).padStart(6)} ms   ${(before / after).toFixed(1)}x`);
+};
+
+const steps = recordGames();
+const sampled = steps.filter((_, i) => i % VALIDATE_EVERY === 0).map(({ state }) => ({ state, legal: getLegalActions(state, state.activePlayerIndex) }));
+console.log(`${GAMES} self-play games, ${steps.length} positions; ${sampled.length} sampled with ${sampled.reduce((n, s) => n + s.legal.length, 0)} legal actions\n`);
+
+compare('Replay played actions', apply => {
+  for (const { state, action } of steps) apply(state, action);
+});
+
+compare('Validate every legal action', apply => {
+  for (const { state, legal } of sampled) {
+    for (const action of legal) apply(state, action);
+  }
+});
@@ -0,0 +1,128 @@
+
+// --- Chess Clocks ---
+//
+// The engine has no notion of time. A clock only follows GameState.activePlayerIndex:
+// it keeps running for the same player through a chain capture or a draw offer and
+// switches (with any increment / byo-yomi reset) once the turn passes.
+// All functions are pure and take the current time, so the app and tests drive them alike.
+
+export enum TimeControlType {
+  SUDDEN_DEATH = 'SUDDEN_DEATH', // Main time only
+  FISCHER = 'FISCHER',           // Main time, plus incrementMs after every turn
+  BYO_YOMI = 'BYO_YOMI',         // Main time, then byoYomiPeriods periods of byoYomiMs per turn
+}
+
+export interface TimeControl {
+  name: string;
+  type: TimeControlType;
+  mainMs: number;
+  incrementMs: number;    // FISCHER
+  byoYomiMs: number;      // BYO_YOMI: length of one period
+  byoYomiPeriods: number; // BYO_YOMI: a period is lost whenever a turn overruns it
+}
+
+export interface ClockState {
+  control: TimeControl;
+  // Main time, or once a byo-yomi player is in overtime, what is left of the current period
+  remainingMs: [number, number];
+  // BYO_YOMI periods not yet started (fewer than byoYomiPeriods = in overtime)
+  periodsLeft: [number, number];
+  running: number | null;       // Player on the clock; null once stopped
+  runningSince: number | null;  // When 'running' last settled; null while paused
+}
+
+const MINUTE = 60_000;
+
+// Named presets (keys match TimeControl.name); null = untimed
+export const TIME_CONTROL_PRESETS: Record<string, TimeControl> = {
+  SUDDEN_DEATH_10: { name: 'SUDDEN_DEATH_10', type: TimeControlType.SUDDEN_DEATH, mainMs: 10 * MINUTE, incrementMs: 0, byoYomiMs: 0, byoYomiPeriods: 0 },
+  FISCHER_5_3: { name: 'FISCHER_5_3', type: TimeControlType.FISCHER, mainMs: 5 * MINUTE, incrementMs: 3_000, byoYomiMs: 0, byoYomiPeriods: 0 },
+  BYO_YOMI_5_3X30: { name: 'BYO_YOMI_5_3X30', type: TimeControlType.BYO_YOMI, mainMs: 5 * MINUTE, incrementMs: 0, byoYomiMs: 30_000, byoYomiPeriods: 3 },
+};
+
+export const createClock = (control: TimeControl, running: number | null, now: number): ClockState => ({
+  control,
+  remainingMs: [control.mainMs, control.mainMs],
+  periodsLeft: [control.byoYomiPeriods, control.byoYomiPeriods],
+  running,
+  runningSince: running === null ? null : now,
+});
+
+const isInOvertime = (clock: ClockState, player: number): boolean =>
+  clock.control.type === TimeControlType.BYO_YOMI && clock.periodsLeft[player] < clock.control.byoYomiPeriods;
+
+// Takes 'elapsedMs' off a player's time, moving on to the next byo-yomi period as each one runs out
+const spend = (clock: ClockState, player: number, elapsedMs: number): void => {
+  let remaining = clock.remainingMs[player] - elapsedMs;
+  let periods = clock.periodsLeft[player];
+  if (clock.control.type === TimeControlType.BYO_YOMI) {
+    while (remaining <= 0 && periods > 0) {
+      remaining += clock.control.byoYomiMs;
+      periods--;
+    }
+  }
+  clock.remainingMs[player] = Math.max(0, remaining);
+  clock.periodsLeft[player] = periods;
+};
+
+/**
+ * Charges the running player for the time since the last settle.
+ */
+export const tickClock = (clock: ClockState, now: number): ClockState => {
+  const next: ClockState = { ...clock, remainingMs: [...clock.remainingMs], periodsLeft: [...clock.periodsLeft] };
+  if (next.running !== null && next.runningSince !== null) {
+    spend(next, next.running, Math.max(0, now - next.runningSince));
+    next.runningSince = now;
+  }
+  return next;
+};
+
+/**
+ * Call after every applied action with the new active player (null when the game is over).
+ * If the turn passed, the player who just finished gets their increment or a fresh byo-yomi period.
+ */
+export const passClock = (clock: ClockState, nextPlayer: number | null, now: number): ClockState => {
+  const next = tickClock(clock, now);
+  const finished = next.running;
+  if (finished !== null && finished !== nextPlayer && next.remainingMs[finished] > 0) {
+    if (next.control.type === TimeControlType.FISCHER) next.remainingMs[finished] += next.control.incrementMs;
+    if (isInOvertime(next, finished)) next.remainingMs[finished] = next.control.byoYomiMs;
+  }
+  return { ...next, running: nextPlayer, runningSince: nextPlayer === null ? null : now };
+};
+
+/**
+ * Puts 'player' on the clock without crediting anyone: undo/redo, loading a game.
+ * Also resumes a paused clock.
+ */
+export const resumeClock = (clock: ClockState, player: number | null, now: number): ClockState => {
+  const next = tickClock(clock, now);
+  return { ...next, running: player, runningSince: player === null ? null : now };
+};
+
+/**
+ * Settles and stops time without changing who is on the clock (saving a game).
+ */
+export const pauseClock = (clock: ClockState, now: number): ClockState => ({ ...tickClock(clock, now), runningSince: null });
+
+/**
+ * Time a player has left at 'now' (current byo-yomi period once in overtime). Does not modify the clock.
+ */
+export const getRemainingMs = (clock: ClockState, player: number, now: number): number =>
+  player === clock.running ? tickClock(clock, now).remainingMs[player] : clock.remainingMs[player];
+
+export const getPeriodsLeft = (clock: ClockState, player: number, now: number): number =>
+  player === clock.running ? tickClock(clock, now).periodsLeft[player] : clock.periodsLeft[player];
+
+/**
+ * Player whose time has run out, if any. Only the player on the clock can flag.
+ */
+export const getFlaggedPlayer = (clock: ClockState, now: number): number | null =>
+  clock.running !== null && getRemainingMs(clock, clock.running, now) <= 0 ? clock.running : null;
+
+export const formatClockTime = (ms: number): string => {
+  const totalSeconds = Math.ceil(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
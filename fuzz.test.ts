@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FUZZ_TURN_LIMIT, Invariant, allPieceIds, checkInvariants, formatFailure, fuzzGame, fuzzGames } from './fuzz';
+import { parsePosition } from './notation';
+import { RULE_PRESETS } from './types';
+
+// Games per rule preset; raise it for a longer run (npm run test:fuzz)
+const GAMES = Number(process.env.FUZZ_GAMES) || 10;
+
+describe('Self-play invariants', () => {
+  for (const rules of Object.values(RULE_PRESETS)) {
+    // Not a termination check: without a turn limit of their own, games are drawn by the fuzzer
+    const bound = rules.turnLimit > 0 ? '' : `, drawn by the fuzzer at turn ${FUZZ_TURN_LIMIT}`;
+    it(`holds for ${GAMES} random ${rules.name} games${bound}`, () => {
+      const failure = fuzzGames(1, GAMES, { rules });
+      assert.equal(failure, null, failure ? formatFailure(failure) : '');
+    });
+
+    it(`accepts every generated ${rules.name} action along a game${bound}`, () => {
+      const failure = fuzzGame(GAMES + 1, { rules, checkAllActions: true });
+      assert.equal(failure, null, failure ? formatFailure(failure) : '');
+    });
+  }
+});
+
+describe('Invariant checks', () => {
+  it('accepts a consistent position', () => {
+    const state = parsePosition('(RR)6p/8/8/8 P - RB 0 - 0');
+    assert.equal(checkInvariants(state, allPieceIds(state)), null);
+  });
+
+  it('notices a lost piece', () => {
+    const state = parsePosition('(RR)6p/8/8/8 P - RB 0 - 0');
+    const expected = allPieceIds(state);
+    state.players[0].hand.pieces = [];
+    assert.equal(checkInvariants(state, expected)?.invariant, Invariant.PIECES_NOT_CONSERVED);
+  });
+
+  it('notices a stack over its limit', () => {
+    const state = parsePosition('(KKK)6p/8/8/8 - - RB 0 - 0');
+    assert.equal(checkInvariants(state, allPieceIds(state))?.invariant, Invariant.STACK_OVER_LIMIT);
+  });
+
+  it('reports games that run past maxPlies', () => {
+    const failure = fuzzGame(1, { maxPlies: 10 });
+    assert.equal(failure?.invariant, Invariant.MAX_PLIES_EXCEEDED);
+    assert.equal(failure?.actions.length, 10);
+  });
+
+  it('imposes its own turn limit only on rule sets without one, and says so', () => {
+    assert.equal(fuzzGame(1, { turnLimit: 5, maxPlies: 100 }), null);
+    const asShipped = fuzzGame(1, { turnLimit: 0, maxPlies: 100 });
+    assert.equal(asShipped?.invariant, Invariant.MAX_PLIES_EXCEEDED);
+    assert.equal(asShipped?.imposedTurnLimit, null);
+    const imposed = fuzzGame(1, { maxPlies: 10 });
+    assert.equal(imposed?.imposedTurnLimit, FUZZ_TURN_LIMIT);
+    assert.match(formatFailure(imposed!), /turn limit 500 imposed by the fuzzer/);
+  });
+});
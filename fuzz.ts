@@ -0,0 +1,270 @@
+
+import { GameState, PlayerAction, RuleSet, STANDARD_RULES } from './types';
+import { initRandomGame, applyAction, getLegalActions, getStackBaseType, isDrawAction } from './gameEngine';
+import { createRng } from './rng';
+import { formatActions, formatPosition } from './notation';
+import { describeViolation } from './violations';
+
+// --- Self-Play Fuzzing ---
+//
+// Plays seeded random games through getLegalActions + applyAction and checks engine invariants
+// after every action. A failing game is shrunk to a short action list that still fails the same
+// way, replayable from initRandomGame(seed, rules).
+//
+// This is not a termination check for the rules. Captured pieces come back through hands, so
+// captures never run out and rule sets without a turn limit (the presets) do not end every game.
+// The fuzzer therefore draws such games at its own turn limit and reports that it did; pass
+// turnLimit: 0 to play a rule set as shipped, where MAX_PLIES_EXCEEDED shows the games that never end.
+
+export enum Invariant {
+  LEGAL_ACTION_REJECTED = 'LEGAL_ACTION_REJECTED', // A generated action came back with an error
+  PIECES_NOT_CONSERVED = 'PIECES_NOT_CONSERVED',   // Pieces appeared, vanished or were duplicated
+  STACK_OVER_LIMIT = 'STACK_OVER_LIMIT',           // A stack is taller than its base type allows
+  MAX_PLIES_EXCEEDED = 'MAX_PLIES_EXCEEDED',       // Game still running after maxPlies
+}
+
+export interface InvariantViolation {
+  invariant: Invariant;
+  message: string;
+}
+
+export interface FuzzFailure extends InvariantViolation {
+  seed: number;
+  rules: RuleSet;          // As played, including the fuzz turn limit
+  imposedTurnLimit: number | null; // The fuzzer's turn limit, if the rule set had none
+  actions: PlayerAction[]; // Minimized (except MAX_PLIES_EXCEEDED); replay from initRandomGame(seed, rules)
+  notation: string;        // 'actions' in notation.ts syntax
+  position: string;        // Position just after the last action
+}
+
+export interface FuzzOptions {
+  rules?: RuleSet;
+  maxPlies?: number;         // A game still running after this many actions fails MAX_PLIES_EXCEEDED
+  turnLimit?: number;        // Games are drawn at this turn unless the rule set has a limit of its own (0 = none)
+  checkAllActions?: boolean; // Apply every generated action, not just the one played (slower)
+  drawRate?: number;         // Chance of playing an available draw offer/acceptance
+}
+
+export const FUZZ_TURN_LIMIT = 500;
+
+const DEFAULTS: Required<FuzzOptions> = {
+  rules: STANDARD_RULES,
+  maxPlies: 10_000, // Far above what turnLimit allows, chains included
+  turnLimit: FUZZ_TURN_LIMIT,
+  checkAllActions: false,
+  drawRate: 0.01,
+};
+
+// Sorted IDs of every piece on the board and in hand
+export const allPieceIds = (state: GameState): string[] => {
+  const ids: string[] = [];
+  for (const row of state.board) for (const stack of row) if (stack) ids.push(...stack.pieces.map(p => p.id));
+  for (const player of state.players) ids.push(...player.hand.pieces.map(p => p.id));
+  return ids.sort();
+};
+
+/**
+ * Checks a state against the invariants that hold after any accepted action.
+ * 'expectedIds' are the sorted piece IDs of the initial deal.
+ */
+export const checkInvariants = (state: GameState, expectedIds: string[]): InvariantViolation | null => {
+  const ids = allPieceIds(state);
+  if (ids.length !== expectedIds.length || ids.some((id, i) => id !== expectedIds[i])) {
+    return { invariant: Invariant.PIECES_NOT_CONSERVED, message: `${ids.length} pieces on board and in hand, expected ${expectedIds.length}` };
+  }
+
+  for (let r = 0; r < state.rules.rows; r++) {
+    for (let c = 0; c < state.rules.cols; c++) {
+      const stack = state.board[r][c];
+      if (!stack) continue;
+      const baseType = getStackBaseType(stack.pieces);
+      const limit = state.rules.stackLimits[baseType];
+      if (stack.pieces.length > limit) {
+        return { invariant: Invariant.STACK_OVER_LIMIT, message: `${baseType} stack of ${stack.pieces.length} at row ${r}, col ${c} (limit ${limit})` };
+      }
+    }
+  }
+  return null;
+};
+
+const sameAction = (a: PlayerAction, b: PlayerAction): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Applies 'action' and checks the outcome. 'generated' = the action came from getLegalActions.
+ */
+const checkStep = (state: GameState, action: PlayerAction, expectedIds: string[], generated: boolean): { next: GameState; violation: InvariantViolation | null } => {
+  const next = applyAction(state, action);
+  if (next.error) {
+    const violation = generated
+      ? { invariant: Invariant.LEGAL_ACTION_REJECTED, message: `${formatActions([action])} rejected: ${describeViolation(next.error)}` }
+      : null;
+    return { next, violation };
+  }
+  return { next, violation: checkInvariants(next, expectedIds) };
+};
+
+type Replay =
+  | { kind: 'FAILED'; violation: InvariantViolation; actions: PlayerAction[]; state: GameState }
+  | { kind: 'PASSED' }
+  | { kind: 'INVALID' }; // Some action was illegal where it was played
+
+/**
+ * Replays an action list from the deal and reports the first invariant failure.
+ * Each action is played by whoever is on move (like notation), so dropping an action does not
+ * hand the rest to the wrong player. Actions are checked against the generator, so a rejected
+ * one only counts as a failure if it was legal.
+ */
+const replay = (seed: number, rules: RuleSet, actions: PlayerAction[]): Replay => {
+  let state = initRandomGame(seed, rules);
+  const expectedIds = allPieceIds(state);
+  const played: PlayerAction[] = [];
+
+  for (const original of actions) {
+    const action = { ...original, playerId: state.activePlayerIndex };
+    played.push(action);
+    const generated = getLegalActions(state, action.playerId).some(a => sameAction(a, action));
+    const { next, violation } = checkStep(state, action, expectedIds, generated);
+    if (violation) return { kind: 'FAILED', violation, actions: played, state: next };
+    if (next.error) return { kind: 'INVALID' };
+    state = next;
+  }
+  return { kind: 'PASSED' };
+};
+
+const chunkSizes = (length: number): number[] => {
+  const sizes: number[] = [];
+  for (let chunk = Math.floor(length / 2); chunk >= 1; chunk = Math.floor(chunk / 2)) sizes.push(chunk);
+  return sizes;
+};
+
+/**
+ * Shrinks a failing action list (delta debugging): removes ever smaller chunks as long as the
+ * remaining list still fails with the same invariant. Dropping a single action usually hands the
+ * rest of the game to the other player, so any two separate actions are also tried together.
+ */
+export const minimizeFailure = (seed: number, rules: RuleSet, actions: PlayerAction[], invariant: Invariant): PlayerAction[] => {
+  const reproduces = (candidate: PlayerAction[]): PlayerAction[] | null => {
+    const result = replay(seed, rules, candidate);
+    return result.kind === 'FAILED' && result.violation.invariant === invariant ? result.actions : null;
+  };
+
+  let current = reproduces(actions) ?? actions;
+  let shrunk = true;
+  while (shrunk) {
+    shrunk = false;
+    for (const chunk of chunkSizes(current.length)) {
+      for (let start = 0; start < current.length; ) {
+        const shorter = reproduces([...current.slice(0, start), ...current.slice(start + chunk)]);
+        if (shorter) {
+          current = shorter;
+          shrunk = true;
+        } else start += chunk;
+      }
+    }
+    for (let i = 0; i < current.length && !shrunk; i++) {
+      for (let j = i + 1; j < current.length && !shrunk; j++) {
+        const shorter = reproduces(current.filter((_, k) => k !== i && k !== j));
+        if (shorter) {
+          current = shorter;
+          shrunk = true;
+        }
+      }
+    }
+  }
+  return current;
+};
+
+/**
+ * Plays one seeded random game. Returns null if every invariant held, otherwise the minimized failure.
+ */
+export const fuzzGame = (seed: number, options: FuzzOptions = {}): FuzzFailure | null => {
+  const { maxPlies, checkAllActions, drawRate, turnLimit, ...settings } = { ...DEFAULTS, ...options };
+  // The rule set actually played (and reported with a failure, so repros use it too)
+  const imposedTurnLimit = settings.rules.turnLimit === 0 && turnLimit > 0 ? turnLimit : null;
+  const rules = imposedTurnLimit === null ? settings.rules : { ...settings.rules, turnLimit: imposedTurnLimit };
+  const rng = createRng(seed ^ 0x9E3779B9);
+  let state = initRandomGame(seed, rules);
+  const expectedIds = allPieceIds(state);
+  const played: PlayerAction[] = [];
+
+  const failure = (violation: InvariantViolation, failingState: GameState): FuzzFailure => {
+    const actions = violation.invariant === Invariant.MAX_PLIES_EXCEEDED ? played : minimizeFailure(seed, rules, played, violation.invariant);
+    const last = violation.invariant === Invariant.MAX_PLIES_EXCEEDED ? null : replay(seed, rules, actions);
+    const position = last?.kind === 'FAILED' ? last.state : failingState;
+    return { ...violation, seed, rules, imposedTurnLimit, actions, notation: formatActions(actions), position: formatPosition(position) };
+  };
+
+  while (!state.isGameOver) {
+    if (played.length >= maxPlies) {
+      return failure({ invariant: Invariant.MAX_PLIES_EXCEEDED, message: `Still running after ${maxPlies} actions` }, state);
+    }
+
+    const legal = getLegalActions(state, state.activePlayerIndex);
+    const moves = legal.filter(a => !isDrawAction(a));
+    const draws = legal.filter(isDrawAction);
+    const pool = draws.length > 0 && (moves.length === 0 || rng() < drawRate) ? draws : moves;
+    const action = pool[Math.floor(rng() * pool.length)];
+
+    if (checkAllActions) {
+      for (const other of legal) {
+        if (other === action) continue;
+        const { next, violation } = checkStep(state, other, expectedIds, true);
+        if (violation) {
+          played.push(other);
+          return failure(violation, next);
+        }
+      }
+    }
+
+    played.push(action);
+    const { next, violation } = checkStep(state, action, expectedIds, true);
+    if (violation) return failure(violation, next);
+    state = next;
+  }
+  return null;
+};
+
+/**
+ * Fuzzes 'games' consecutive seeds starting at 'firstSeed' and stops at the first failure.
+ */
+export const fuzzGames = (firstSeed: number, games: number, options: FuzzOptions = {}): FuzzFailure | null => {
+  for (let seed = firstSeed; seed < firstSeed + games; seed++) {
+    const failure = fuzzGame(seed, options);
+    if (failure) return failure;
+  }
+  return null;
+};
+
+export const formatFailure = (f: FuzzFailure): string =>
+  `${f.invariant} (rules ${f.rules.name}, turn limit ${f.rules.turnLimit}${f.imposedTurnLimit === null ? '' : ' imposed by the fuzzer'}, seed ${f.seed}): ${f.message}\n` +
+  `  ${f.actions.length} actions: ${f.notation}\n` +
+  `  reached: ${f.position}`;
+
+// --- Seeded Self-Play ---
+
+export interface SelfPlayStep {
+  state: GameState;
+  legal: PlayerAction[]; // Every action legal for the side on move
+}
+
+/**
+ * Plays a seeded game of uniformly random legal actions, without checking anything, for tests
+ * that need realistic positions. Stops after 'plies' actions or when the game ends.
+ */
+export const selfPlay = (seed: number, rules: RuleSet = STANDARD_RULES, plies = 120): { steps: SelfPlayStep[]; final: GameState } => {
+  const rng = createRng(seed);
+  let state = initRandomGame(seed, rules);
+  const steps: SelfPlayStep[] = [];
+  while (steps.length < plies && !state.isGameOver) {
+    const legal = getLegalActions(state, state.activePlayerIndex);
+    steps.push({ state, legal });
+    state = applyAction(state, legal[Math.floor(rng() * legal.length)]);
+  }
+  return { steps, final: state };
+};
+
+/** Every position along a selfPlay game, the final one included. */
+export const selfPlayStates = (seed: number, rules: RuleSet = STANDARD_RULES, plies = 120): GameState[] => {
+  const { steps, final } = selfPlay(seed, rules, plies);
+  return [...steps.map(step => step.state), final];
+};
@@ -0,0 +1,403 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyAction, applyChain, getLegalActions, initRandomGame, planChains } from './gameEngine';
+import { createRng } from './rng';
+import { formatActions, formatPosition, parseAction, parsePosition } from './notation';
+import { ActionType, CaptureResolution, Color, GameEndReason, GameState, PieceType, PlayerAction, RULE_PRESETS, RuleViolationCode, STACK_LIMITS, STANDARD_RULES } from './types';
+import { runTests } from './test';
+
+// Positions and moves are written in notation.ts syntax; see the comment there.
+// Board rows are listed from row 1 (a1..h1) down, so '7r' on the last row is h4.
+
+// Plays the moves for whoever is on move, failing the test on the first illegal one
+const play = (state: GameState, ...moves: string[]): GameState =>
+  moves.reduce((s, move) => {
+    const next = applyAction(s, parseAction(move, s.activePlayerIndex));
+    assert.equal(next.error, null, `${move} should be legal in ${formatPosition(s)}`);
+    return next;
+  }, state);
+
+// Tries a single move for the player on move; the result may carry an error
+const attempt = (state: GameState, move: string): GameState => applyAction(state, parseAction(move, state.activePlayerIndex));
+
+const handIds = (state: GameState, player: number): string[] => state.players[player].hand.pieces.map(p => p.id).sort();
+
+const LETTERS: Record<PieceType, string> = {
+  [PieceType.GENERAL]: 'K',
+  [PieceType.ADVISOR]: 'A',
+  [PieceType.ELEPHANT]: 'E',
+  [PieceType.CHARIOT]: 'R',
+  [PieceType.HORSE]: 'H',
+  [PieceType.CANNON]: 'C',
+  [PieceType.SOLDIER]: 'P',
+};
+
+const stackCell = (letter: string, size: number): string => (size === 1 ? letter : `(${letter.repeat(size)})`);
+
+describe('FLIP', () => {
+  const start = parsePosition('~r~P6/8/8/8 - - -- 0 - 0');
+
+  it('gives the first flipper the color of the revealed piece', () => {
+    const state = play(start, '*a1');
+    assert.equal(state.colorsAssigned, true);
+    assert.equal(state.players[0].color, Color.BLACK);
+    assert.equal(state.players[1].color, Color.RED);
+    assert.equal(state.board[0][0]!.pieces[0].faceUp, true);
+    assert.equal(state.activePlayerIndex, 1);
+    assert.equal(state.turnCount, 1);
+  });
+
+  it('keeps the colors on later flips', () => {
+    const state = play(start, '*a1', '*b1');
+    assert.equal(state.players[0].color, Color.BLACK);
+    assert.equal(state.players[1].color, Color.RED);
+  });
+
+  it('rejects revealed and empty squares', () => {
+    const flipped = play(start, '*a1');
+    assert.equal(attempt(flipped, '*a1').error?.code, RuleViolationCode.ALREADY_REVEALED);
+    assert.equal(attempt(flipped, '*c1').error?.code, RuleViolationCode.EMPTY_CELL);
+  });
+
+  it('does not mutate the input state', () => {
+    const before = formatPosition(start);
+    play(start, '*a1');
+    assert.equal(formatPosition(start), before);
+  });
+});
+
+describe('Cannon screens', () => {
+  // Cannon a1, screen c1, black chariot e1
+  const start = parsePosition('C1p1r3/8/8/8 - - RB 0 - 0');
+
+  it('moves to an empty square only without screens', () => {
+    assert.equal(play(start, 'a1-b1').board[0][1]!.pieces[0].type, PieceType.CANNON);
+    assert.deepEqual(attempt(start, 'a1-d1').error, { code: RuleViolationCode.CANNON_SCREENS, required: 0, actual: 1 });
+  });
+
+  it('needs exactly one screen to capture', () => {
+    assert.deepEqual(attempt(start, 'a1-c1').error, { code: RuleViolationCode.CANNON_SCREENS, required: 1, actual: 0 });
+    const state = play(start, 'a1-e1');
+    assert.equal(formatPosition(state), '2p1C3/8/8/8 R - RB 1 - 1');
+  });
+
+  it('follows the rule set screen count', () => {
+    const twoScreens = parsePosition('C1p1r3/8/8/8 - - RB 0 - 0', { ...STANDARD_RULES, cannonScreens: 2 });
+    assert.deepEqual(attempt(twoScreens, 'a1-e1').error, { code: RuleViolationCode.INVALID_MOVE_PATTERN, baseType: PieceType.CANNON });
+    assert.equal(play(parsePosition('Cpp1r3/8/8/8 - - RB 0 - 0', { ...STANDARD_RULES, cannonScreens: 2 }), 'a1-e1').players[0].hand.pieces.length, 1);
+  });
+});
+
+describe('Stack limits', () => {
+  for (const type of Object.values(PieceType)) {
+    const letter = LETTERS[type];
+    const limit = STACK_LIMITS[type];
+
+    it(`allows ${type} stacks up to ${limit}`, () => {
+      const state = play(parsePosition(`${stackCell(letter, limit - 1)}7/8/8/7p ${letter} - RB 0 - 0`), `${letter}@a1`);
+      assert.equal(state.board[0][0]!.pieces.length, limit);
+    });
+
+    it(`rejects ${type} stacks of ${limit + 1}`, () => {
+      const state = attempt(parsePosition(`${stackCell(letter, limit)}7/8/8/7p ${letter} - RB 0 - 0`), `${letter}@a1`);
+      assert.deepEqual(state.error, { code: RuleViolationCode.STACK_LIMIT_EXCEEDED, baseType: type, limit, size: limit + 1 });
+    });
+  }
+
+  it('uses the base type after stacking', () => {
+    // A general alone is limited to 2, but under a chariot the stack counts as a chariot stack
+    const state = play(parsePosition('(KR)7/8/8/7p R - RB 0 - 0'), 'R@a1');
+    assert.equal(state.board[0][0]!.pieces.length, 3);
+  });
+
+  it('checks the limit when stacking by move', () => {
+    const state = attempt(parsePosition('(KK)K6/8/8/7p - - RB 0 - 0'), 'b1-a1/s');
+    assert.equal(state.error?.code, RuleViolationCode.STACK_LIMIT_EXCEEDED);
+  });
+});
+
+describe('Chain captures', () => {
+  // Chariot a1 can take c1, then e1; a second chariot waits on a4
+  const start = parsePosition('R1r1r3/8/8/R7 - - RB 0 - 0');
+
+  it('keeps the turn while another interaction is available', () => {
+    const state = play(start, 'a1-c1');
+    assert.deepEqual(state.pendingChainCapture, { row: 0, col: 2 });
+    assert.equal(state.activePlayerIndex, 0);
+    assert.equal(state.turnCount, 0);
+  });
+
+  it('only accepts interactions by the chaining piece', () => {
+    const chaining = play(start, 'a1-c1');
+    assert.equal(attempt(chaining, 'a4-a3').error?.code, RuleViolationCode.CHAIN_WRONG_PIECE);
+    assert.equal(attempt(chaining, 'c1-c2').error?.code, RuleViolationCode.CHAIN_INTERACTION_REQUIRED);
+    assert.equal(attempt(chaining, '*a1').error?.code, RuleViolationCode.CHAIN_MOVE_REQUIRED);
+  });
+
+  it('ends the chain on PASS', () => {
+    const state = play(start, 'a1-c1', '--');
+    assert.equal(state.pendingChainCapture, null);
+    assert.equal(state.activePlayerIndex, 1);
+    assert.equal(state.turnCount, 1);
+  });
+
+  it('rejects PASS outside a chain', () => {
+    assert.equal(attempt(start, '--').error?.code, RuleViolationCode.NOT_CHAINING);
+  });
+});
+
+describe('Soldier chains', () => {
+  // Soldier a1 takes b1 and would then reach c1
+  const position = 'Prr5/8/8/8 - - RB 0 - 0';
+
+  it('does not let a soldier continue a chain', () => {
+    const state = play(parsePosition(position), 'a1-b1');
+    assert.equal(state.pendingChainCapture, null);
+    assert.equal(state.activePlayerIndex, 1);
+  });
+
+  it('lets a soldier chain when the rule set allows it', () => {
+    const state = play(parsePosition(position, RULE_PRESETS.SOLDIER_CHAIN), 'a1-b1');
+    assert.deepEqual(state.pendingChainCapture, { row: 0, col: 1 });
+  });
+});
+
+describe('Chain planning', () => {
+  const start = parsePosition('R1r1r3/8/8/R7 - - RB 0 - 0');
+  const a1 = { row: 0, col: 0 };
+  const last = <T,>(items: T[]): T => items[items.length - 1];
+
+  it('lists every chain with its prefixes, stacking steps and friendly merges', () => {
+    assert.deepEqual(planChains(start, a1).map(plan => formatActions(plan.actions)), [
+      'a1-c1/h',
+      'a1-c1/s',
+      'a1-a4/h',
+      'a1-a4/s',
+      'a1-c1/h c1-e1/h',
+      'a1-c1/h c1-e1/s',
+      'a1-c1/s c1-e1/h',
+      'a1-c1/s c1-e1/s',
+    ]);
+  });
+
+  it('matches the legal actions at every step of random games', () => {
+    for (const rules of Object.values(RULE_PRESETS)) {
+      const rng = createRng(20);
+      let state = initRandomGame(20, rules);
+      for (let ply = 0; ply < 150 && !state.isGameOver; ply++) {
+        const from = state.pendingChainCapture;
+        if (from) {
+          const plans = planChains(state, from);
+          const moves = getLegalActions(state, state.activePlayerIndex).filter(a => a.type === ActionType.MOVE);
+          assert.deepEqual(plans.filter(plan => plan.steps.length === 1).map(plan => plan.actions[0]), moves);
+          for (const plan of plans) {
+            assert.equal(formatPosition(applyChain(state, from, plan.steps)), formatPosition(last(plan.states)));
+          }
+        }
+        const legal = getLegalActions(state, state.activePlayerIndex);
+        state = applyAction(state, legal[Math.floor(rng() * legal.length)]);
+      }
+    }
+  });
+
+  it('keeps the shorter chains when it stops at the limit', () => {
+    assert.deepEqual(planChains(start, a1, 5).map(plan => plan.steps.length), [1, 1, 1, 1, 2]);
+  });
+
+  it('has nothing for face-down, enemy or non-chaining stacks', () => {
+    assert.deepEqual(planChains(start, { row: 0, col: 2 }), []);
+    assert.deepEqual(planChains(parsePosition('~R1r5/8/8/8 - - RB 0 - 0'), a1), []);
+    assert.deepEqual(planChains(play(start, 'a1-c1'), { row: 3, col: 0 }), []);
+  });
+
+  it('applies a whole chain', () => {
+    const steps = [{ to: { row: 0, col: 2 }, captureResolution: CaptureResolution.TO_HAND }, { to: { row: 0, col: 4 }, captureResolution: CaptureResolution.STACK_IF_POSSIBLE }];
+    assert.equal(formatPosition(applyChain(start, a1, steps)), formatPosition(play(start, 'a1-c1/h', 'c1-e1/s')));
+  });
+
+  it('ends the turn on request', () => {
+    const state = applyChain(start, a1, [{ to: { row: 0, col: 2 }, captureResolution: CaptureResolution.TO_HAND }], true);
+    assert.equal(state.pendingChainCapture, null);
+    assert.equal(state.activePlayerIndex, 1);
+  });
+
+  const rejected: [string, string[], RuleViolationCode][] = [
+    ['no steps', [], RuleViolationCode.MISSING_PARAMS],
+    ['a step onto an empty square', ['b1'], RuleViolationCode.CHAIN_INTERACTION_REQUIRED],
+    ['a step after the chain ended', ['a4', 'c1'], RuleViolationCode.CHAIN_ENDED],
+    ['an illegal later step', ['c1', 'c4'], RuleViolationCode.CHAIN_INTERACTION_REQUIRED],
+  ];
+  for (const [name, squares, code] of rejected) {
+    it(`rejects ${name} without playing any step`, () => {
+      const steps = squares.map(sq => ({ to: parseAction(`a1-${sq}`, 0).to!, captureResolution: CaptureResolution.TO_HAND }));
+      const state = applyChain(start, a1, steps);
+      assert.equal(state.error?.code, code);
+      assert.equal(formatPosition(state), formatPosition(start));
+    });
+  }
+});
+
+describe('DEPLOY', () => {
+  it('moves pieces from hand onto an empty square', () => {
+    const state = play(parsePosition('8/8/8/7p PPP - RB 0 - 0'), '2P@a1');
+    assert.equal(state.board[0][0]!.pieces.length, 2);
+    assert.equal(state.players[0].hand.pieces.length, 1);
+    assert.equal(state.activePlayerIndex, 1);
+  });
+
+  const refunds: [string, string, RuleViolationCode][] = [
+    ['onto a face-down piece', '~p7/8/8/7p PPP - RB 0 - 0', RuleViolationCode.HIDDEN_PIECE],
+    ['onto an enemy', 'p7/8/8/8 PPP - RB 0 - 0', RuleViolationCode.DEPLOY_ON_ENEMY],
+    ['onto another type', 'R7/8/8/7p PPP - RB 0 - 0', RuleViolationCode.STACK_TYPE_MISMATCH],
+    ['over the stack limit', '(PPPPPPPPPPP)7/8/8/7p PPP - RB 0 - 0', RuleViolationCode.STACK_LIMIT_EXCEEDED],
+  ];
+  for (const [name, position, code] of refunds) {
+    it(`returns the pieces to hand when deploying ${name} fails`, () => {
+      const start = parsePosition(position);
+      const state = attempt(start, '2P@a1');
+      assert.equal(state.error?.code, code);
+      assert.deepEqual(handIds(state, 0), handIds(start, 0));
+      assert.deepEqual(state.board, start.board);
+    });
+  }
+
+  it('rejects deploying more than the hand holds', () => {
+    const state = attempt(parsePosition('8/8/8/7p P - RB 0 - 0'), '2P@a1');
+    assert.deepEqual(state.error, { code: RuleViolationCode.NOT_ENOUGH_IN_HAND, pieceType: PieceType.SOLDIER, requested: 2, available: 1 });
+  });
+});
+
+describe('RETRIEVE', () => {
+  // Stack ids are p0..p2 bottom to top
+  const start = parsePosition('(RRR)6p/8/8/8 - - RB 0 - 0');
+
+  it('takes the chosen pieces into hand', () => {
+    const state = play(start, '^a1{p0,p1}');
+    assert.deepEqual(state.board[0][0]!.pieces.map(p => p.id), ['p2']);
+    assert.deepEqual(handIds(state, 0), ['p0', 'p1']);
+    assert.equal(state.activePlayerIndex, 1);
+  });
+
+  it('accepts any subset and keeps the rest in order', () => {
+    const ids = ['p0', 'p1', 'p2'];
+    for (let mask = 1; mask < 7; mask++) {
+      const taken = ids.filter((_, i) => mask & (1 << i));
+      const state = play(start, `^a1{${taken.join(',')}}`);
+      assert.deepEqual(state.board[0][0]!.pieces.map(p => p.id), ids.filter(id => !taken.includes(id)));
+      assert.deepEqual(handIds(state, 0), taken);
+    }
+  });
+
+  it('generates each distinct outcome once, even for tall stacks', () => {
+    const retrieves = (position: string) => {
+      const state = parsePosition(position);
+      return getLegalActions(state, 0).filter(a => a.type === ActionType.RETRIEVE).map(a => formatPosition(applyAction(state, a)));
+    };
+    assert.equal(retrieves('(PPPPPPPPPPPP)7/8/8/7p - - RB 0 - 0').length, 11);
+    assert.equal(retrieves('(RrR)7/8/8/7p - - RB 0 - 0').length, 6); // Colors and order matter on the square and in hand
+
+    // 12 pieces of two kinds: 141 outcomes instead of 4094 subsets, and no outcome missing
+    const tall = '(PPPPPKPPPPPK)7/8/8/7p - - RB 0 - 0';
+    const generated = retrieves(tall);
+    assert.equal(generated.length, 141);
+    const state = parsePosition(tall);
+    const ids = state.board[0][0]!.pieces.map(p => p.id);
+    const outcomes = new Set<string>();
+    for (let mask = 1; mask < (1 << ids.length) - 1; mask++) {
+      const taken = ids.filter((_, i) => mask & (1 << i));
+      outcomes.add(formatPosition(play(state, `^a1{${taken.join(',')}}`)));
+    }
+    assert.deepEqual([...outcomes].sort(), [...generated].sort());
+  });
+
+  it('must leave at least one piece', () => {
+    assert.equal(attempt(start, '^a1{p0,p1,p2}').error?.code, RuleViolationCode.MUST_LEAVE_PIECE);
+    assert.equal(attempt(start, '^a1{}').error?.code, RuleViolationCode.NOTHING_TO_RETRIEVE);
+  });
+
+  it('only retrieves from own stacks', () => {
+    assert.equal(attempt(start, '^h1{p3}').error?.code, RuleViolationCode.NOT_YOUR_PIECE);
+    assert.deepEqual(attempt(start, '^a1{p3}').error, { code: RuleViolationCode.PIECE_NOT_IN_STACK, pieceId: 'p3' });
+  });
+});
+
+describe('Win detection', () => {
+  it('ends the game when the last enemy piece is taken', () => {
+    const state = play(parsePosition('Rr6/8/8/8 - - RB 0 - 0'), 'a1-b1');
+    assert.equal(state.isGameOver, true);
+    assert.deepEqual(state.result, { winner: 0, reason: GameEndReason.ELIMINATION });
+  });
+
+  it('ends a chain that takes the last enemy piece', () => {
+    const state = play(parsePosition('R1r1r3/8/8/8 - - RB 0 - 0'), 'a1-c1', 'c1-e1');
+    assert.deepEqual(state.result, { winner: 0, reason: GameEndReason.ELIMINATION });
+  });
+
+  it('plays on while face-down pieces remain', () => {
+    const state = play(parsePosition('Rr5~p/8/8/8 - - RB 0 - 0'), 'a1-b1');
+    assert.equal(state.isGameOver, false);
+  });
+
+  it('ends the game when the player to move has no legal action', () => {
+    // The black soldier is boxed in by stacks it is too light to take
+    const state = play(parsePosition('p(RR)6/(RR)7/8/7R - - RB 0 - 0'), 'h4-h3');
+    assert.deepEqual(state.result, { winner: 0, reason: GameEndReason.STALEMATE });
+  });
+
+  it('rejects actions once the game is over', () => {
+    const over = play(parsePosition('Rr6/8/8/8 - - RB 0 - 0'), 'a1-b1');
+    assert.equal(applyAction(over, { type: ActionType.FLIP, playerId: 1, flipLocation: { row: 0, col: 0 } }).error?.code, RuleViolationCode.GAME_OVER);
+  });
+});
+
+describe('Unknown actions', () => {
+  it('rejects them without passing the turn or counting the position', () => {
+    const start = parsePosition('R6r/8/8/8 - - RB 0 - 0');
+    const bogus = { type: 'BOGUS', playerId: 0 } as unknown as PlayerAction;
+    const once = applyAction(start, bogus);
+    assert.deepEqual(once.error, { code: RuleViolationCode.UNKNOWN_ACTION, actionType: 'BOGUS' });
+    assert.equal(once.activePlayerIndex, 0);
+    assert.equal(once.lastAction, null);
+    assert.deepEqual(once.positionCounts, start.positionCounts);
+
+    const twice = applyAction({ ...once, error: null }, bogus);
+    assert.equal(twice.isGameOver, false);
+    assert.equal(twice.error?.code, RuleViolationCode.UNKNOWN_ACTION);
+  });
+});
+
+describe('Structural sharing', () => {
+  const deepFreeze = <T,>(value: T): T => {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+      Object.freeze(value);
+      for (const child of Object.values(value)) deepFreeze(child);
+    }
+    return value;
+  };
+
+  it('never writes to the previous state', () => {
+    // Writing to a frozen object throws in module (strict mode) code
+    const rng = createRng(7);
+    let state = deepFreeze(initRandomGame(7));
+    while (!state.isGameOver) {
+      const legal = getLegalActions(state, state.activePlayerIndex);
+      for (const action of legal) applyAction(state, action);
+      state = deepFreeze(applyAction(state, legal[Math.floor(rng() * legal.length)]));
+    }
+  });
+
+  it('shares untouched rows and players', () => {
+    const start = parsePosition('R7/8/8/7r P - RB 0 - 0');
+    const state = play(start, 'a1-a2');
+    assert.equal(state.board[2], start.board[2]);
+    assert.equal(state.players[1], start.players[1]);
+    assert.notEqual(state.board[0], start.board[0]);
+  });
+});
+
+describe('Scenario checks (test.ts)', () => {
+  it('reports no failures', () => {
+    const failures = runTests().filter(line => line.startsWith('FAIL'));
+    assert.deepEqual(failures, []);
+  });
+});
@@ -8,33 +8,49 @@ import {
   PlayerAction,
   ActionType,
   PieceStack,
-  INITIAL_PIECE_COUNTS,
-  STACK_LIMITS,
+  PlayerState,
   Location,
   CaptureResolution,
+  CaptureRule,
+  RuleSet,
+  GameEndReason,
+  RuleViolation,
+  RuleViolationCode,
+  ChainStep,
+  ChainPlan,
+  PIECE_RANKS,
+  STANDARD_RULES,
 } from './types';
+import { positionKey } from './packedPosition';
+import { createRng, randomSeed, Rng } from './rng';
 
 // --- Helper Functions: IDs & Setup ---
 
-const generateId = (): string => Math.random().toString(36).substring(2, 9);
+const generateId = (rng: Rng): string => rng().toString(36).substring(2, 9).padEnd(7, '0');
 
-const shuffle = <T,>(array: T[]): T[] => {
+const shuffle = <T,>(array: T[], rng: Rng): T[] => {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
 };
 
-const createDeck = (): PieceInstance[] => {
+const createDeck = (rng: Rng, rules: RuleSet): PieceInstance[] => {
   const deck: PieceInstance[] = [];
   const colors = [Color.RED, Color.BLACK];
+  const usedIds = new Set<string>();
 
   colors.forEach((color) => {
-    Object.entries(INITIAL_PIECE_COUNTS).forEach(([type, count]) => {
+    Object.entries(rules.initialPieceCounts).forEach(([type, count]) => {
       for (let i = 0; i < count; i++) {
+        // Collisions are astronomically rare, but IDs must be unique within a game
+        let id = generateId(rng);
+        while (usedIds.has(id)) id = generateId(rng);
+        usedIds.add(id);
+
         deck.push({
-          id: generateId(),
+          id,
           type: type as PieceType,
           color: color,
           faceUp: false,
@@ -42,23 +58,32 @@ const createDeck = (): PieceInstance[] => {
       }
     });
   });
-  return shuffle(deck);
+  return shuffle(deck, rng);
 };
 
-export const initRandomGame = (): GameState => {
-  const deck = createDeck();
-  const board: Board = Array(4).fill(null).map(() => Array(8).fill(null));
+/**
+ * Deals a new game. Pass a seed to reproduce a specific deal (board + piece IDs);
+ * when omitted a random seed is chosen and recorded in `GameState.seed`.
+ * The rule set is recorded in `GameState.rules` and governs every later action.
+ */
+export const initRandomGame = (seed: number = randomSeed(), rules: RuleSet = STANDARD_RULES): GameState => {
+  const rng = createRng(seed);
+  const deck = createDeck(rng, rules);
+  if (deck.length > rules.rows * rules.cols) {
+    throw new Error(`Rule set ${rules.name}: ${deck.length} pieces do not fit a ${rules.rows}x${rules.cols} board`);
+  }
+  const board: Board = Array(rules.rows).fill(null).map(() => Array(rules.cols).fill(null));
 
   let deckIndex = 0;
-  for (let r = 0; r < 4; r++) {
-    for (let c = 0; c < 8; c++) {
+  for (let r = 0; r < rules.rows; r++) {
+    for (let c = 0; c < rules.cols; c++) {
       if (deckIndex < deck.length) {
         board[r][c] = { pieces: [deck[deckIndex++]] };
       }
     }
   }
 
-  return {
+  const state: GameState = {
     board,
     players: [
       { color: Color.UNKNOWN, hand: { pieces: [] } },
@@ -69,16 +94,31 @@ export const initRandomGame = (): GameState => {
     turnCount: 0,
     isGameOver: false,
     winner: null,
+    result: null,
     lastAction: null,
     error: null,
     pendingChainCapture: null,
+    seed,
+    rules,
+    drawOfferBy: null,
+    noProgressPlies: 0,
+    positionCounts: {},
   };
+  state.positionCounts[positionKey(state)] = 1;
+  return state;
+};
+
+const endGame = (state: GameState, winner: number | null, reason: GameEndReason): GameState => {
+  state.isGameOver = true;
+  state.winner = winner;
+  state.result = { winner, reason };
+  return state;
 };
 
 // --- Helper Functions: Stacking & Logic ---
 
-export const isValidCoordinate = (loc: Location): boolean => {
-  return loc.row >= 0 && loc.row < 4 && loc.col >= 0 && loc.col < 8;
+export const isValidCoordinate = (loc: Location, rules: RuleSet = STANDARD_RULES): boolean => {
+  return loc.row >= 0 && loc.row < rules.rows && loc.col >= 0 && loc.col < rules.cols;
 };
 
 const getStackWeight = (stack: PieceStack | null): number => {
@@ -108,8 +148,9 @@ const getTopPiece = (stack: PieceStack | null): PieceInstance | null => {
 export const canStackOn = (
   targetPieces: PieceInstance[], 
   incomingPieces: PieceInstance[],
-  checkColor: boolean
-): { valid: boolean; reason?: string } => {
+  checkColor: boolean,
+  rules: RuleSet = STANDARD_RULES
+): { valid: boolean; violation?: RuleViolation } => {
   if (targetPieces.length === 0) return { valid: true };
   
   const topTarget = targetPieces[targetPieces.length - 1];
@@ -118,7 +159,7 @@ export const canStackOn = (
   // 1. Color Check (Only for Friendly Merge)
   if (checkColor) {
     if (topTarget.color !== topIncoming.color) {
-      return { valid: false, reason: "Color mismatch" };
+      return { valid: false, violation: { code: RuleViolationCode.STACK_COLOR_MISMATCH } };
     }
   }
 
@@ -131,7 +172,7 @@ export const canStackOn = (
     for (const p of incomingPieces) {
       const isCompatible = (p.type === baseType) || (p.type === PieceType.GENERAL);
       if (!isCompatible) {
-         return { valid: false, reason: `Type mismatch. Stack is ${baseType}, cannot add ${p.type}` };
+         return { valid: false, violation: { code: RuleViolationCode.STACK_TYPE_MISMATCH, baseType, incomingType: p.type } };
       }
     }
   }
@@ -140,10 +181,10 @@ export const canStackOn = (
   // Check limits based on the NEW identity.
   const combined = [...targetPieces, ...incomingPieces];
   const newBase = getStackBaseType(combined);
-  const limit = STACK_LIMITS[newBase];
+  const limit = rules.stackLimits[newBase];
 
   if (combined.length > limit) {
-    return { valid: false, reason: `Stack limit exceeded. Type ${newBase} max ${limit}, got ${combined.length}` };
+    return { valid: false, violation: { code: RuleViolationCode.STACK_LIMIT_EXCEEDED, baseType: newBase, limit, size: combined.length } };
   }
 
   return { valid: true };
@@ -173,7 +214,7 @@ const countPiecesBetween = (board: Board, from: Location, to: Location): number
  * Helper to determine if a specific move pattern is valid (ignoring interaction outcome).
  * Returns { valid, isCannonCapture, screens }
  */
-const getMovePatternDetails = (board: Board, from: Location, to: Location, baseType: PieceType) => {
+const getMovePatternDetails = (board: Board, from: Location, to: Location, baseType: PieceType, rules: RuleSet) => {
   const dr = to.row - from.row;
   const dc = to.col - from.col;
   const isLine = (from.row === to.row || from.col === to.col);
@@ -196,10 +237,10 @@ const getMovePatternDetails = (board: Board, from: Location, to: Location, baseT
     case PieceType.CANNON:
       if (isLine) {
         screens = countPiecesBetween(board, from, to);
-        // Cannon Move (0 screens) OR Cannon Interaction (1 screen)
-        if (screens === 0 || screens === 1) {
+        // Cannon Move (0 screens) OR Cannon Interaction (rules.cannonScreens screens)
+        if (screens === 0 || screens === rules.cannonScreens) {
           valid = true;
-          if (screens === 1) isCannonCapture = true;
+          if (screens === rules.cannonScreens) isCannonCapture = true;
         }
       }
       break;
@@ -210,22 +251,85 @@ const getMovePatternDetails = (board: Board, from: Location, to: Location, baseT
   return { valid, isCannonCapture, screens };
 };
 
+/**
+ * Rank comparison of two stack base types, banqi style.
+ * Returns 1 (attacker outranks), 0 (equal rank), -1 (attacker outranked),
+ * or null when rank does not apply (attacking cannon).
+ */
+const compareRanks = (attackerType: PieceType, defenderType: PieceType): 1 | 0 | -1 | null => {
+  if (attackerType === PieceType.CANNON) return null;
+  // Soldier beats General; General never takes Soldier
+  if (attackerType === PieceType.SOLDIER && defenderType === PieceType.GENERAL) return 1;
+  if (attackerType === PieceType.GENERAL && defenderType === PieceType.SOLDIER) return -1;
+  return Math.sign(PIECE_RANKS[attackerType] - PIECE_RANKS[defenderType]) as 1 | 0 | -1;
+};
+
+/**
+ * Does the attacking stack beat the defending enemy stack under the rule set's capture rule?
+ * Rank rules use each stack's base type (see getStackBaseType).
+ */
+const meetsCaptureRule = (attackerStack: PieceStack, defenderStack: PieceStack, rules: RuleSet): boolean => {
+  const atkWeight = getStackWeight(attackerStack);
+  const defWeight = getStackWeight(defenderStack);
+  const rank = () => compareRanks(getStackBaseType(attackerStack.pieces), getStackBaseType(defenderStack.pieces));
+
+  switch (rules.captureRule) {
+    case CaptureRule.WEIGHT_GTE:
+      return atkWeight >= defWeight;
+    case CaptureRule.WEIGHT_GT:
+      return atkWeight > defWeight;
+    case CaptureRule.RANK: {
+      const r = rank();
+      return r === null || r >= 0;
+    }
+    case CaptureRule.RANK_AND_WEIGHT: {
+      const r = rank();
+      return (r === null || r >= 0) && atkWeight >= defWeight;
+    }
+    case CaptureRule.RANK_THEN_WEIGHT: {
+      const r = rank();
+      if (r === null || r === 0) return atkWeight >= defWeight;
+      return r > 0;
+    }
+  }
+};
+
+/**
+ * Why an enemy capture failed, matching the active capture rule.
+ */
+const captureViolation = (attackerStack: PieceStack, defenderStack: PieceStack, rules: RuleSet): RuleViolation => {
+  const tooLight: RuleViolation = {
+    code: RuleViolationCode.CAPTURE_TOO_LIGHT,
+    attackerWeight: getStackWeight(attackerStack),
+    defenderWeight: getStackWeight(defenderStack),
+    captureRule: rules.captureRule,
+  };
+
+  if (rules.captureRule === CaptureRule.WEIGHT_GTE || rules.captureRule === CaptureRule.WEIGHT_GT) return tooLight;
+
+  const attackerType = getStackBaseType(attackerStack.pieces);
+  const defenderType = getStackBaseType(defenderStack.pieces);
+  const r = compareRanks(attackerType, defenderType);
+  const rankBlocks = r !== null && r < 0;
+  return rankBlocks ? { code: RuleViolationCode.CAPTURE_RANK_TOO_LOW, attackerType, defenderType } : tooLight;
+};
+
 /**
  * Can the piece at 'from' interact with the target at 'to'?
- * - If Enemy: Checks Weight >= Weight.
+ * - If Enemy: Checks the rule set's capture rule (classic: Weight >= Weight).
  * - If Friend: Always true (assuming pattern is valid), because we can Retrieve/Merge.
  * 
- * CRITICAL: For CANNON, this MUST check that screens === 1. 
+ * CRITICAL: For CANNON, this MUST check that screens === rules.cannonScreens. 
  * Because this function implies "Target Exists" (Interaction).
  */
-const canPieceCaptureTarget = (board: Board, from: Location, to: Location, attackerStack: PieceStack, defenderStack: PieceStack): boolean => {
+const canPieceCaptureTarget = (board: Board, from: Location, to: Location, attackerStack: PieceStack, defenderStack: PieceStack, rules: RuleSet): boolean => {
   const baseType = getStackBaseType(attackerStack.pieces);
-  const pattern = getMovePatternDetails(board, from, to, baseType);
+  const pattern = getMovePatternDetails(board, from, to, baseType, rules);
 
   if (!pattern.valid) return false;
 
-  // CANNON RULE FIX: For any interaction (Friend or Foe), Cannon needs exactly 1 screen
-  if (baseType === PieceType.CANNON && pattern.screens !== 1) {
+  // CANNON RULE FIX: For any interaction (Friend or Foe), Cannon needs exactly the configured screens
+  if (baseType === PieceType.CANNON && pattern.screens !== rules.cannonScreens) {
     return false;
   }
 
@@ -235,27 +339,31 @@ const canPieceCaptureTarget = (board: Board, from: Location, to: Location, attac
   // Friendly? Always "Capture-able" (Retrieve/Merge)
   if (atkTop.color === defTop.color) return true;
 
-  // Enemy Logic (Weight Only)
-  const atkWeight = getStackWeight(attackerStack);
-  const defWeight = getStackWeight(defenderStack);
+  // Enemy Logic
+  return meetsCaptureRule(attackerStack, defenderStack, rules);
+};
 
-  return atkWeight >= defWeight;
+/**
+ * Can a stack with this base type keep chain capturing? (Soldiers only if the rules allow it)
+ */
+const canBaseTypeChain = (baseType: PieceType, rules: RuleSet): boolean => {
+  return baseType !== PieceType.SOLDIER || rules.soldierCanChain;
 };
 
 /**
  * Scans for ANY valid interaction (Enemy Capture OR Friendly Retrieve/Merge) from 'loc'.
  */
-const hasChainOptions = (gameState: GameState, loc: Location, playerColor: Color): boolean => {
+const hasChainOptions = (gameState: GameState, loc: Location, playerColor: Color, rules: RuleSet): boolean => {
   const { board } = gameState;
   const stack = board[loc.row][loc.col];
   if (!stack) return false;
   
-  // SOLDIER CHAIN RESTRICTION: Soldiers cannot chain capture
+  // SOLDIER CHAIN RESTRICTION: Soldiers cannot chain capture (unless the rules allow it)
   const baseType = getStackBaseType(stack.pieces);
-  if (baseType === PieceType.SOLDIER) return false;
+  if (!canBaseTypeChain(baseType, rules)) return false;
 
-  for (let r = 0; r < 4; r++) {
-    for (let c = 0; c < 8; c++) {
+  for (let r = 0; r < rules.rows; r++) {
+    for (let c = 0; c < rules.cols; c++) {
       if (r === loc.row && c === loc.col) continue;
       const target = board[r][c];
       if (target) {
@@ -263,7 +371,7 @@ const hasChainOptions = (gameState: GameState, loc: Location, playerColor: Color
         // Must be face up
         if (targetTop && targetTop.faceUp) {
           // Scan BOTH Enemy (Capture) and Friend (Retrieve/Merge)
-          if (canPieceCaptureTarget(board, loc, {row:r, col:c}, stack, target)) {
+          if (canPieceCaptureTarget(board, loc, {row:r, col:c}, stack, target, rules)) {
             return true;
           }
         }
@@ -274,25 +382,85 @@ const hasChainOptions = (gameState: GameState, loc: Location, playerColor: Color
 };
 
 
+// --- Copy-on-Write ---
+// applyAction starts from a shallow copy of the state and copies a row, stack or player only
+// right before changing it. Everything it does not touch is shared with the previous state,
+// so states (and everything reachable from them) must be treated as immutable.
+
+const setCell = (state: GameState, loc: Location, stack: PieceStack | null): void => {
+  const row = [...state.board[loc.row]];
+  row[loc.col] = stack;
+  state.board[loc.row] = row;
+};
+
+// Copy of the stack at 'loc', already placed on the board and safe to change
+const editStack = (state: GameState, loc: Location): PieceStack => {
+  const stack = { pieces: [...state.board[loc.row][loc.col]!.pieces] };
+  setCell(state, loc, stack);
+  return stack;
+};
+
+// Copy of a player (and hand), already placed in the state and safe to change
+const editPlayer = (state: GameState, index: number): PlayerState => {
+  const player = { ...state.players[index], hand: { pieces: [...state.players[index].hand.pieces] } };
+  state.players[index] = player;
+  return player;
+};
+
 // --- Action Handling ---
 
-export const applyAction = (state: GameState, action: PlayerAction): GameState => {
-  const newState: GameState = JSON.parse(JSON.stringify(state));
-  newState.error = null;
+/**
+ * Applies an action and returns the new state (the input is never mutated; unchanged parts are shared).
+ * Illegal actions return an unchanged copy with `error` set.
+ * `rules` defaults to the rule set recorded in the state.
+ */
+export const applyAction = (state: GameState, action: PlayerAction, rules: RuleSet = state.rules): GameState => {
+  const newState: GameState = {
+    ...state,
+    board: [...state.board],
+    players: [...state.players],
+    error: null,
+    rules,
+  };
 
   // Win Check Pre-flight
-  if (newState.isGameOver) {
-    newState.error = "游戏已结束 (Game is over).";
-    return newState;
+  if (newState.isGameOver) return fail(newState, { code: RuleViolationCode.GAME_OVER });
+
+  // Resignation needs no turn
+  if (action.type === ActionType.RESIGN) {
+    if (action.playerId !== 0 && action.playerId !== 1) return fail(newState, { code: RuleViolationCode.INVALID_PLAYER });
+    newState.drawOfferBy = null;
+    newState.lastAction = action;
+    return endGame(newState, 1 - action.playerId, GameEndReason.RESIGNATION);
   }
 
   // Turn Validation
-  if (action.playerId !== newState.activePlayerIndex) {
-    newState.error = "不是你的回合 (Not your turn).";
-    return newState;
+  if (action.playerId !== newState.activePlayerIndex) return fail(newState, { code: RuleViolationCode.NOT_YOUR_TURN });
+
+  const player = editPlayer(newState, action.playerId);
+
+  // Only the player to move has a running clock, so only they can lose on time
+  if (action.type === ActionType.TIMEOUT) {
+    newState.drawOfferBy = null;
+    newState.lastAction = action;
+    return endGame(newState, 1 - action.playerId, GameEndReason.TIMEOUT);
   }
 
-  const player = newState.players[action.playerId];
+  // Draw Offers (allowed at any point of the turn, including mid-chain)
+  if (action.type === ActionType.OFFER_DRAW) {
+    if (newState.drawOfferBy !== null) return fail(newState, { code: RuleViolationCode.DRAW_ALREADY_OFFERED });
+    newState.drawOfferBy = action.playerId;
+    newState.lastAction = action;
+    return newState;
+  }
+  if (action.type === ActionType.ACCEPT_DRAW) {
+    if (newState.drawOfferBy !== 1 - action.playerId) return fail(newState, { code: RuleViolationCode.NO_DRAW_OFFER });
+    newState.drawOfferBy = null;
+    newState.lastAction = action;
+    return endGame(newState, null, GameEndReason.AGREED_DRAW);
+  }
+  // Playing on declines the opponent's offer; one's own offer stands until the opponent answers
+  if (newState.drawOfferBy === 1 - action.playerId) newState.drawOfferBy = null;
 
   // Pending Chain Capture Check
   if (newState.pendingChainCapture) {
@@ -302,42 +470,47 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
       newState.pendingChainCapture = null;
       newState.activePlayerIndex = 1 - action.playerId;
       newState.turnCount++;
-      return newState;
+      newState.lastAction = action;
+      return checkGameEnd(newState, false, rules);
     } 
     
     if (action.type !== ActionType.MOVE) {
-      return fail(newState, "连吃状态下必须继续吃子或跳过 (Must Continue Chain or Pass)");
+      return fail(newState, { code: RuleViolationCode.CHAIN_MOVE_REQUIRED });
     }
 
     if (!action.from || 
         action.from.row !== newState.pendingChainCapture.row || 
         action.from.col !== newState.pendingChainCapture.col) {
-       return fail(newState, "连吃状态下只能移动当前棋子 (Must move the chaining piece)");
+       return fail(newState, { code: RuleViolationCode.CHAIN_WRONG_PIECE, chainAt: newState.pendingChainCapture });
     }
   } else {
     if (action.type === ActionType.PASS) {
-      return fail(newState, "Cannot pass when not chaining");
+      return fail(newState, { code: RuleViolationCode.NOT_CHAINING });
     }
   }
 
   // --- MECHANICS ---
 
+  let moveIsCapture = false; // Enemy stack taken (progress for the no-progress rule)
+
   switch (action.type) {
     case ActionType.FLIP: {
-      if (!action.flipLocation) return fail(newState, "Missing flip location");
+      if (!action.flipLocation) return fail(newState, { code: RuleViolationCode.MISSING_PARAMS, actionType: action.type });
+      if (!isValidCoordinate(action.flipLocation, rules)) return fail(newState, { code: RuleViolationCode.INVALID_COORDINATES, location: action.flipLocation });
       const { row, col } = action.flipLocation;
-      const stack = newState.board[row][col];
+      const existing = newState.board[row][col];
       
-      if (!stack || stack.pieces.length === 0) return fail(newState, "Empty cell");
-      const top = stack.pieces[stack.pieces.length - 1];
-      if (top.faceUp) return fail(newState, "Already revealed");
+      if (!existing || existing.pieces.length === 0) return fail(newState, { code: RuleViolationCode.EMPTY_CELL, location: action.flipLocation });
+      if (existing.pieces[existing.pieces.length - 1].faceUp) return fail(newState, { code: RuleViolationCode.ALREADY_REVEALED, location: action.flipLocation });
 
-      top.faceUp = true;
+      const stack = editStack(newState, action.flipLocation);
+      const top = { ...stack.pieces[stack.pieces.length - 1], faceUp: true };
+      stack.pieces[stack.pieces.length - 1] = top;
 
       // Assign Colors logic
       if (!newState.colorsAssigned) {
         player.color = top.color;
-        const otherPlayer = newState.players[1 - action.playerId];
+        const otherPlayer = editPlayer(newState, 1 - action.playerId);
         otherPlayer.color = top.color === Color.RED ? Color.BLACK : Color.RED;
         newState.colorsAssigned = true;
       }
@@ -349,26 +522,27 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
     }
 
     case ActionType.MOVE: {
-      if (!action.from || !action.to) return fail(newState, "Missing coords");
+      if (!action.from || !action.to) return fail(newState, { code: RuleViolationCode.MISSING_PARAMS, actionType: action.type });
       const { from, to } = action;
       const captureRes = action.captureResolution || CaptureResolution.TO_HAND;
 
-      if (!isValidCoordinate(from) || !isValidCoordinate(to)) return fail(newState, "Invalid coords");
-      if (from.row === to.row && from.col === to.col) return fail(newState, "Cannot move to self");
+      if (!isValidCoordinate(from, rules)) return fail(newState, { code: RuleViolationCode.INVALID_COORDINATES, location: from });
+      if (!isValidCoordinate(to, rules)) return fail(newState, { code: RuleViolationCode.INVALID_COORDINATES, location: to });
+      if (from.row === to.row && from.col === to.col) return fail(newState, { code: RuleViolationCode.SAME_SQUARE });
 
       const srcStack = newState.board[from.row][from.col];
-      if (!srcStack) return fail(newState, "No source");
+      if (!srcStack) return fail(newState, { code: RuleViolationCode.EMPTY_CELL, location: from });
       
       const movingPiece = getTopPiece(srcStack)!;
-      if (!movingPiece.faceUp) return fail(newState, "Cannot move hidden");
-      if (newState.colorsAssigned && movingPiece.color !== player.color) return fail(newState, "Not your piece");
+      if (!movingPiece.faceUp) return fail(newState, { code: RuleViolationCode.HIDDEN_PIECE, location: from });
+      if (newState.colorsAssigned && movingPiece.color !== player.color) return fail(newState, { code: RuleViolationCode.NOT_YOUR_PIECE, location: from });
 
       const destStack = newState.board[to.row][to.col];
       const baseType = getStackBaseType(srcStack.pieces);
       
       // Check Pattern
-      const pattern = getMovePatternDetails(newState.board, from, to, baseType);
-      if (!pattern.valid) return fail(newState, `Invalid move pattern for ${baseType}`);
+      const pattern = getMovePatternDetails(newState.board, from, to, baseType, rules);
+      if (!pattern.valid) return fail(newState, { code: RuleViolationCode.INVALID_MOVE_PATTERN, baseType });
 
       let moveIsInteraction = false; // Capture or Merge or Retrieve
 
@@ -376,30 +550,31 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
         // Empty cell -> Move
         // If chaining, only captures/interactions are allowed!
         if (newState.pendingChainCapture) {
-          return fail(newState, "连吃状态下必须吃子 (Must capture/interact during chain)");
+          return fail(newState, { code: RuleViolationCode.CHAIN_INTERACTION_REQUIRED });
         }
         
         // Cannon cannot move if screens > 0 (Jump only for capture)
         if (baseType === PieceType.CANNON && pattern.screens > 0) {
-          return fail(newState, "炮移动到空位时不能跨子 (Cannon needs 0 screens to move to empty)");
+          return fail(newState, { code: RuleViolationCode.CANNON_SCREENS, required: 0, actual: pattern.screens });
         }
 
-        newState.board[to.row][to.col] = { pieces: [...srcStack.pieces] };
-        newState.board[from.row][from.col] = null;
+        setCell(newState, to, srcStack);
+        setCell(newState, from, null);
       } 
       else {
         // Occupied -> Interaction (Merge, Retrieve, or Capture)
         const topDest = getTopPiece(destStack)!;
-        if (!topDest.faceUp) return fail(newState, "Cannot interact with hidden pieces");
+        if (!topDest.faceUp) return fail(newState, { code: RuleViolationCode.HIDDEN_PIECE, location: to });
 
         moveIsInteraction = true;
 
         // CANNON CHECK: Must have screen for any interaction
-        if (baseType === PieceType.CANNON && pattern.screens !== 1) {
-            return fail(newState, "炮必须隔一个棋子才能攻击或互动 (Cannon needs exactly 1 screen to interact)");
+        if (baseType === PieceType.CANNON && pattern.screens !== rules.cannonScreens) {
+            return fail(newState, { code: RuleViolationCode.CANNON_SCREENS, required: rules.cannonScreens, actual: pattern.screens });
         }
         
         const isFriendly = topDest.color === player.color;
+        moveIsCapture = !isFriendly;
 
         // --- INTERACTION LOGIC MATRIX ---
 
@@ -407,44 +582,39 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
             // CASE: "To Hand"
             
             if (!isFriendly) {
-               // Check Enemy Capture Validity (Weight only)
+               // Check Enemy Capture Validity (rule set's capture rule)
                // Note: canPieceCaptureTarget handles Cannon screen check too, but we added explicit check above for clarity/UI safety
-               if (!canPieceCaptureTarget(newState.board, from, to, srcStack, destStack)) {
-                   const atkWeight = getStackWeight(srcStack);
-                   const defWeight = getStackWeight(destStack);
-                   return fail(newState, `层数不足：我方(${atkWeight}) vs 敌方(${defWeight})`);
+               if (!canPieceCaptureTarget(newState.board, from, to, srcStack, destStack, rules)) {
+                   return fail(newState, captureViolation(srcStack, destStack, rules));
                }
             }
 
             // Execute "To Hand" (Works for both Enemy and Friend)
             for (const p of destStack.pieces) {
-              p.color = player.color; // Convert color (or keep same if friendly)
-              player.hand.pieces.push(p);
+              player.hand.pieces.push({ ...p, color: player.color }); // Convert color (or keep same if friendly)
             }
             // Source moves to Dest
-            newState.board[to.row][to.col] = { pieces: [...srcStack.pieces] };
-            newState.board[from.row][from.col] = null;
+            setCell(newState, to, srcStack);
+            setCell(newState, from, null);
 
         } else {
             // CASE: "Stack"
 
             // Check Stack Validity
-            const stackCheck = canStackOn(destStack.pieces, srcStack.pieces, isFriendly);
-            if (!stackCheck.valid) return fail(newState, `Cannot stack: ${stackCheck.reason}`);
+            const stackCheck = canStackOn(destStack.pieces, srcStack.pieces, isFriendly, rules);
+            if (!stackCheck.valid) return fail(newState, stackCheck.violation!);
 
             if (!isFriendly) {
                 // Enemy Capture checks
-                if (!canPieceCaptureTarget(newState.board, from, to, srcStack, destStack)) {
-                   const atkWeight = getStackWeight(srcStack);
-                   const defWeight = getStackWeight(destStack);
-                   return fail(newState, `层数不足：我方(${atkWeight}) vs 敌方(${defWeight})`);
+                if (!canPieceCaptureTarget(newState.board, from, to, srcStack, destStack, rules)) {
+                   return fail(newState, captureViolation(srcStack, destStack, rules));
                 }
             }
 
             // Execute Stack
             const combined = [...destStack.pieces, ...srcStack.pieces];
-            newState.board[to.row][to.col] = { pieces: combined };
-            newState.board[from.row][from.col] = null;
+            setCell(newState, to, { pieces: combined });
+            setCell(newState, from, null);
         }
       }
 
@@ -453,8 +623,8 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
       const resultingStack = newState.board[to.row][to.col];
       const resultingBaseType = resultingStack ? getStackBaseType(resultingStack.pieces) : PieceType.SOLDIER;
 
-      // SOLDIER CANNOT CHAIN
-      if (moveIsInteraction && resultingBaseType !== PieceType.SOLDIER && hasChainOptions(newState, to, player.color)) {
+      // SOLDIER CANNOT CHAIN (unless the rules allow it)
+      if (moveIsInteraction && canBaseTypeChain(resultingBaseType, rules) && hasChainOptions(newState, to, player.color, rules)) {
         newState.pendingChainCapture = to;
         newState.lastAction = action; 
         // Do NOT increment turn count
@@ -468,14 +638,14 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
     }
 
     case ActionType.DEPLOY: {
-      if (newState.pendingChainCapture) return fail(newState, "Cannot deploy during chain");
+      if (newState.pendingChainCapture) return fail(newState, { code: RuleViolationCode.CHAIN_MOVE_REQUIRED });
 
       if (!action.deployTo || !action.deployType || !action.deployCount) 
-        return fail(newState, "Missing deploy params");
+        return fail(newState, { code: RuleViolationCode.MISSING_PARAMS, actionType: action.type });
       
       const { deployTo, deployType, deployCount } = action;
-      if (deployCount < 1) return fail(newState, "Count must be >= 1");
-      if (!isValidCoordinate(deployTo)) return fail(newState, "Invalid coords");
+      if (!Number.isInteger(deployCount) || deployCount < 1) return fail(newState, { code: RuleViolationCode.INVALID_COUNT, count: deployCount });
+      if (!isValidCoordinate(deployTo, rules)) return fail(newState, { code: RuleViolationCode.INVALID_COORDINATES, location: deployTo });
 
       // Check Hand
       const availableIndices: number[] = [];
@@ -484,7 +654,7 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
       });
 
       if (availableIndices.length < deployCount) 
-        return fail(newState, `Not enough ${deployType} in hand`);
+        return fail(newState, { code: RuleViolationCode.NOT_ENOUGH_IN_HAND, pieceType: deployType, requested: deployCount, available: availableIndices.length });
 
       const piecesToDeploy: PieceInstance[] = [];
       let found = 0;
@@ -499,25 +669,25 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
 
       const targetStack = newState.board[deployTo.row][deployTo.col];
       if (!targetStack) {
-        newState.board[deployTo.row][deployTo.col] = { pieces: piecesToDeploy };
+        setCell(newState, deployTo, { pieces: piecesToDeploy });
       } else {
         const top = getTopPiece(targetStack)!;
         if (!top.faceUp) {
            player.hand.pieces.push(...piecesToDeploy);
-           return fail(newState, "Cannot deploy on hidden");
+           return fail(newState, { code: RuleViolationCode.HIDDEN_PIECE, location: deployTo });
         }
         if (top.color !== player.color) {
            player.hand.pieces.push(...piecesToDeploy);
-           return fail(newState, "Cannot deploy on enemy");
+           return fail(newState, { code: RuleViolationCode.DEPLOY_ON_ENEMY, location: deployTo });
         }
 
-        const check = canStackOn(targetStack.pieces, piecesToDeploy, true);
+        const check = canStackOn(targetStack.pieces, piecesToDeploy, true, rules);
         if (!check.valid) {
            player.hand.pieces.push(...piecesToDeploy);
-           return fail(newState, `Deploy failed: ${check.reason}`);
+           return fail(newState, check.violation!);
         }
 
-        targetStack.pieces.push(...piecesToDeploy);
+        editStack(newState, deployTo).pieces.push(...piecesToDeploy);
       }
 
       newState.activePlayerIndex = 1 - action.playerId;
@@ -526,25 +696,30 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
     }
 
     case ActionType.RETRIEVE: {
-      if (newState.pendingChainCapture) return fail(newState, "Cannot retrieve during chain");
+      if (newState.pendingChainCapture) return fail(newState, { code: RuleViolationCode.CHAIN_MOVE_REQUIRED });
 
       if (!action.retrieveFrom || !action.retrievePieceIds) 
-        return fail(newState, "Missing retrieve params");
+        return fail(newState, { code: RuleViolationCode.MISSING_PARAMS, actionType: action.type });
       
       const { retrieveFrom, retrievePieceIds } = action;
+      if (!isValidCoordinate(retrieveFrom, rules)) return fail(newState, { code: RuleViolationCode.INVALID_COORDINATES, location: retrieveFrom });
+      if (retrievePieceIds.length === 0) return fail(newState, { code: RuleViolationCode.NOTHING_TO_RETRIEVE });
+      if (new Set(retrievePieceIds).size !== retrievePieceIds.length) return fail(newState, { code: RuleViolationCode.DUPLICATE_PIECE_IDS });
+
       const stack = newState.board[retrieveFrom.row][retrieveFrom.col];
       
-      if (!stack) return fail(newState, "No stack");
+      if (!stack) return fail(newState, { code: RuleViolationCode.EMPTY_CELL, location: retrieveFrom });
       const top = getTopPiece(stack)!;
-      if (top.color !== player.color) return fail(newState, "Not your stack");
+      if (!top.faceUp) return fail(newState, { code: RuleViolationCode.HIDDEN_PIECE, location: retrieveFrom });
+      if (top.color !== player.color) return fail(newState, { code: RuleViolationCode.NOT_YOUR_PIECE, location: retrieveFrom });
 
       if (stack.pieces.length - retrievePieceIds.length < 1) {
-        return fail(newState, "Must leave at least 1 piece");
+        return fail(newState, { code: RuleViolationCode.MUST_LEAVE_PIECE });
       }
 
       const stackIds = new Set(stack.pieces.map(p => p.id));
       for (const id of retrievePieceIds) {
-        if (!stackIds.has(id)) return fail(newState, `Piece ${id} not in stack`);
+        if (!stackIds.has(id)) return fail(newState, { code: RuleViolationCode.PIECE_NOT_IN_STACK, pieceId: id });
       }
 
       const newStackPieces: PieceInstance[] = [];
@@ -558,18 +733,33 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
         }
       }
       
-      stack.pieces = newStackPieces;
+      setCell(newState, retrieveFrom, { pieces: newStackPieces });
       player.hand.pieces.push(...retrievedPieces);
 
       newState.activePlayerIndex = 1 - action.playerId;
       newState.turnCount++;
       break;
     }
+
+    default:
+      // Anything else (e.g. from a hand-written save or a network message) must not pass the turn
+      return fail(newState, { code: RuleViolationCode.UNKNOWN_ACTION, actionType: String(action.type) });
   }
 
   newState.lastAction = action;
 
-  // Win Condition Check (After move resolved)
+  const madeProgress = action.type === ActionType.FLIP || moveIsCapture;
+  return checkGameEnd(newState, madeProgress, rules);
+};
+
+/**
+ * Draw bookkeeping and end-of-game detection once an action has been resolved.
+ * Wins (elimination, stalemate) take precedence over draws.
+ */
+const checkGameEnd = (newState: GameState, madeProgress: boolean, rules: RuleSet): GameState => {
+  newState.noProgressPlies = madeProgress ? 0 : newState.noProgressPlies + 1;
+
+  // Positions are only compared at turn boundaries, so mid-chain states are skipped
   if (newState.pendingChainCapture) return newState;
 
   if (newState.colorsAssigned) {
@@ -579,8 +769,8 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
     let hasPieceOnBoard = false;
     let allRevealed = true;
 
-    for (let r = 0; r < 4; r++) {
-      for (let c = 0; c < 8; c++) {
+    for (let r = 0; r < rules.rows; r++) {
+      for (let c = 0; c < rules.cols; c++) {
         const s = newState.board[r][c];
         if (s) {
           const top = getTopPiece(s)!;
@@ -591,159 +781,335 @@ export const applyAction = (state: GameState, action: PlayerAction): GameState =
     }
 
     if (allRevealed && !hasPieceOnBoard) {
-      newState.isGameOver = true;
-      newState.winner = 1 - nextPlayerIdx; // Previous player wins
-      return newState;
+      return endGame(newState, 1 - nextPlayerIdx, GameEndReason.ELIMINATION); // Previous player wins
     }
 
     // No Legal Moves Check
-    const legalActions = getLegalActions(newState, nextPlayerIdx);
-    if (legalActions.length === 0) {
-       newState.isGameOver = true;
-       newState.winner = 1 - nextPlayerIdx;
+    if (!hasLegalAction(newState, nextPlayerIdx, rules)) {
+      return endGame(newState, 1 - nextPlayerIdx, GameEndReason.STALEMATE);
     }
   }
 
+  // Draw Rules. A flip can never be undone, so nothing before it can repeat.
+  const counts = newState.lastAction?.type === ActionType.FLIP ? {} : newState.positionCounts;
+  const key = positionKey(newState);
+  const seen = (counts[key] ?? 0) + 1;
+  newState.positionCounts = { ...counts, [key]: seen };
+
+  if (rules.repetitionLimit > 0 && seen >= rules.repetitionLimit) {
+    return endGame(newState, null, GameEndReason.REPETITION);
+  }
+  if (rules.noProgressLimit > 0 && newState.noProgressPlies >= rules.noProgressLimit) {
+    return endGame(newState, null, GameEndReason.NO_PROGRESS);
+  }
+  if (rules.turnLimit > 0 && newState.turnCount >= rules.turnLimit) {
+    return endGame(newState, null, GameEndReason.TURN_LIMIT);
+  }
+
   return newState;
 };
 
-const fail = (state: GameState, msg: string): GameState => {
-  state.error = msg;
+const fail = (state: GameState, violation: RuleViolation): GameState => {
+  state.error = violation;
   return state;
 };
 
+// --- Legal Action Generation ---
+
 /**
- * Generates all legal actions for the given player.
- * Used mainly for "Game Over" detection (Stalemate).
+ * Visits interactions and moves of the stack at 'from'. With 'chainOnly', only interactions
+ * with face-up stacks are produced (what a pending chain capture allows).
+ * Empty-target moves carry no captureResolution (it has no effect there); interactions come in
+ * both TO_HAND and, when the stack rules allow it, STACK_IF_POSSIBLE form.
  */
-export const getLegalActions = (state: GameState, playerIndex: number): PlayerAction[] => {
-  const actions: PlayerAction[] = [];
+const forEachMoveFrom = (
+  state: GameState,
+  from: Location,
+  playerIndex: number,
+  chainOnly: boolean,
+  rules: RuleSet,
+  visit: (action: PlayerAction) => boolean
+): boolean => {
+  const { board } = state;
+  const player = state.players[playerIndex];
+  const stack = board[from.row][from.col];
+  if (!stack) return false;
+
+  const baseType = getStackBaseType(stack.pieces);
+  const move = (to: Location, captureResolution?: CaptureResolution): PlayerAction => {
+    const action: PlayerAction = { type: ActionType.MOVE, playerId: playerIndex, from: { ...from }, to };
+    if (captureResolution) action.captureResolution = captureResolution;
+    return action;
+  };
+
+  for (let tr = 0; tr < rules.rows; tr++) {
+    for (let tc = 0; tc < rules.cols; tc++) {
+      if (from.row === tr && from.col === tc) continue;
+      const to = { row: tr, col: tc };
+
+      // Pattern check first
+      const pattern = getMovePatternDetails(board, from, to, baseType, rules);
+      if (!pattern.valid) continue;
+
+      const targetStack = board[tr][tc];
+
+      // Target Empty
+      if (!targetStack) {
+        if (chainOnly) continue;
+        if (baseType === PieceType.CANNON && pattern.screens > 0) continue;
+        if (visit(move(to))) return true;
+        continue;
+      }
+
+      const targetTop = getTopPiece(targetStack)!;
+      if (!targetTop.faceUp) continue; // Cannot interact with hidden
+
+      // Interaction (Capture, Merge or Retrieve-to-hand)
+      // CANNON CHECK: Must have screen for any interaction
+      if (baseType === PieceType.CANNON && pattern.screens !== rules.cannonScreens) continue;
+
+      const isFriendly = targetTop.color === player.color;
+      if (!isFriendly && !canPieceCaptureTarget(board, from, to, stack, targetStack, rules)) continue;
+
+      if (visit(move(to, CaptureResolution.TO_HAND))) return true;
+      if (canStackOn(targetStack.pieces, stack.pieces, isFriendly, rules).valid) {
+        if (visit(move(to, CaptureResolution.STACK_IF_POSSIBLE))) return true;
+      }
+    }
+  }
+  return false;
+};
+
+// Pieces that only differ by ID are interchangeable
+const pieceKind = (p: PieceInstance): string => `${p.type}:${p.color}:${p.faceUp}`;
+
+/**
+ * Visits one RETRIEVE per distinct outcome (at least one piece taken, at least one kept): the kinds
+ * left on the square and the kinds added to hand, both in order. IDs are listed bottom -> top.
+ * Splits are built piece by piece and merged as soon as they agree on both sequences, so identical
+ * pieces do not multiply the actions the way plain subsets would.
+ */
+const forEachRetrieveFrom = (
+  stack: PieceStack,
+  from: Location,
+  playerIndex: number,
+  visit: (action: PlayerAction) => boolean
+): boolean => {
+  type Split = { kept: string; taken: string; ids: string[] };
+  let splits: Split[] = [{ kept: '', taken: '', ids: [] }];
+  for (const piece of stack.pieces) {
+    const next = new Map<string, Split>();
+    const add = (split: Split) => {
+      const key = `${split.kept}|${split.taken}`;
+      if (!next.has(key)) next.set(key, split);
+    };
+    const kind = pieceKind(piece);
+    for (const split of splits) {
+      add({ ...split, kept: `${split.kept}${kind},` });
+      add({ kept: split.kept, taken: `${split.taken}${kind},`, ids: [...split.ids, piece.id] });
+    }
+    splits = [...next.values()];
+  }
+
+  for (const { kept, taken, ids } of splits) {
+    if (kept === '' || taken === '') continue;
+    if (visit({ type: ActionType.RETRIEVE, playerId: playerIndex, retrieveFrom: { ...from }, retrievePieceIds: ids })) return true;
+  }
+  return false;
+};
+
+/**
+ * Core generator. Calls 'visit' for each legal action; returning true from 'visit' stops early.
+ * Produces the actions applyAction accepts, one canonical form per distinct outcome
+ * (RETRIEVEs of interchangeable pieces come once).
+ */
+const forEachLegalAction = (state: GameState, playerIndex: number, rules: RuleSet, visit: (action: PlayerAction) => boolean): void => {
+  if (state.isGameOver || playerIndex !== state.activePlayerIndex) return;
+
   const player = state.players[playerIndex];
   const { board } = state;
 
-  // 1. Chain Capture Logic
+  // 0. Draw offers: answer the opponent's, or make one
+  if (state.drawOfferBy === 1 - playerIndex) {
+    if (visit({ type: ActionType.ACCEPT_DRAW, playerId: playerIndex })) return;
+  }
+  if (state.drawOfferBy === null) {
+    if (visit({ type: ActionType.OFFER_DRAW, playerId: playerIndex })) return;
+  }
+
+  // 1. Chain Capture Logic: keep interacting with the chaining stack, or pass
   if (state.pendingChainCapture) {
-    actions.push({ type: ActionType.PASS, playerId: playerIndex });
-    const { row, col } = state.pendingChainCapture;
-    const stack = board[row][col];
-    if (stack) {
-       // Scan targets for that specific piece
-       for(let tr=0; tr<4; tr++) {
-         for(let tc=0; tc<8; tc++) {
-            if(tr===row && tc===col) continue;
-            const target = state.board[tr][tc];
-            if (target) {
-              const tTop = getTopPiece(target);
-              if (tTop && tTop.faceUp) { 
-                 // Can interact with any face up piece (Friendly or Enemy)
-                 if (canPieceCaptureTarget(state.board, {row, col}, {row:tr, col:tc}, stack, target)) {
-                    actions.push({
-                      type: ActionType.MOVE,
-                      playerId: playerIndex,
-                      from: {row, col},
-                      to: {row: tr, col: tc},
-                      captureResolution: CaptureResolution.TO_HAND
-                    });
-                 }
-              }
-            }
-         }
-       }
-    }
-    return actions;
+    if (visit({ type: ActionType.PASS, playerId: playerIndex })) return;
+    forEachMoveFrom(state, state.pendingChainCapture, playerIndex, true, rules, visit);
+    return;
+  }
+
+  // Deployable groups in hand: type -> available count
+  const handCounts = new Map<PieceType, number>();
+  for (const p of player.hand.pieces) {
+    handCounts.set(p.type, (handCounts.get(p.type) ?? 0) + 1);
   }
 
   // 2. Global Scan
-  for (let r = 0; r < 4; r++) {
-    for (let c = 0; c < 8; c++) {
-       const stack = board[r][c];
-
-       // EMPTY: Deploy
-       if (!stack) {
-         if (player.hand.pieces.length > 0) {
-             const handTypes = new Set(player.hand.pieces.map(p => p.type));
-             handTypes.forEach(t => {
-                actions.push({ 
-                    type: ActionType.DEPLOY, 
-                    playerId: playerIndex, 
-                    deployTo: {row: r, col: c}, 
-                    deployType: t, 
-                    deployCount: 1 
-                });
-             });
-         }
-         continue;
-       }
-
-       const top = stack.pieces[stack.pieces.length - 1];
-
-       // HIDDEN: Flip
-       if (!top.faceUp) {
-         actions.push({ type: ActionType.FLIP, playerId: playerIndex, flipLocation: {row: r, col: c} });
-         continue;
-       }
-
-       // FRIENDLY: Move/Retrieve
-       if (state.colorsAssigned && top.color === player.color) {
-         // Retrieve
-         if (stack.pieces.length > 1) {
-            actions.push({
-                type: ActionType.RETRIEVE,
-                playerId: playerIndex,
-                retrieveFrom: {row: r, col: c},
-                retrievePieceIds: [top.id] 
-            });
-         }
-
-         // Scan moves
-         const baseType = getStackBaseType(stack.pieces);
-         for (let tr = 0; tr < 4; tr++) {
-           for (let tc = 0; tc < 8; tc++) {
-             if (r === tr && c === tc) continue;
-
-             // Pattern check first
-             const pattern = getMovePatternDetails(board, {row:r, col:c}, {row:tr, col:tc}, baseType);
-             if (!pattern.valid) continue;
-
-             const targetStack = board[tr][tc];
-
-             // Target Empty
-             if (!targetStack) {
-               if (baseType === PieceType.CANNON && pattern.screens > 0) continue;
-               actions.push({ type: ActionType.MOVE, playerId: playerIndex, from: {row:r,col:c}, to: {row:tr,col:tc} });
-               continue;
-             }
-
-             const targetTop = targetStack.pieces[targetStack.pieces.length - 1];
-             if (!targetTop.faceUp) continue; // Cannot interact with hidden
-
-             // Interaction (Capture or Merge)
-             // CANNON CHECK: Must have screen for any interaction
-             if (baseType === PieceType.CANNON && pattern.screens !== 1) continue;
-
-             const isFriendly = targetTop.color === player.color;
-
-             if (isFriendly) {
-                // Merge
-                if (canStackOn(targetStack.pieces, stack.pieces, true).valid) {
-                    actions.push({ type: ActionType.MOVE, playerId: playerIndex, from: {row:r,col:c}, to: {row:tr,col:tc}, captureResolution: CaptureResolution.STACK_IF_POSSIBLE });
-                }
-                // Retrieve Friend (Capture to Hand)
-                actions.push({ type: ActionType.MOVE, playerId: playerIndex, from: {row:r,col:c}, to: {row:tr,col:tc}, captureResolution: CaptureResolution.TO_HAND });
-             } else {
-                // Enemy
-                if (canPieceCaptureTarget(board, {row:r,col:c}, {row:tr,col:tc}, stack, targetStack)) {
-                     actions.push({ type: ActionType.MOVE, playerId: playerIndex, from: {row:r,col:c}, to: {row:tr,col:tc}, captureResolution: CaptureResolution.TO_HAND });
-                     
-                     if (canStackOn(targetStack.pieces, stack.pieces, false).valid) {
-                        actions.push({ type: ActionType.MOVE, playerId: playerIndex, from: {row:r,col:c}, to: {row:tr,col:tc}, captureResolution: CaptureResolution.STACK_IF_POSSIBLE });
-                     }
-                }
-             }
-           }
-         }
-       }
+  for (let r = 0; r < rules.rows; r++) {
+    for (let c = 0; c < rules.cols; c++) {
+      const loc = { row: r, col: c };
+      const stack = board[r][c];
+
+      // EMPTY: Deploy any count of any hand type
+      if (!stack) {
+        for (const [deployType, available] of handCounts) {
+          for (let deployCount = 1; deployCount <= available; deployCount++) {
+            if (visit({ type: ActionType.DEPLOY, playerId: playerIndex, deployTo: loc, deployType, deployCount })) return;
+          }
+        }
+        continue;
+      }
+
+      const top = getTopPiece(stack)!;
+
+      // HIDDEN: Flip
+      if (!top.faceUp) {
+        if (visit({ type: ActionType.FLIP, playerId: playerIndex, flipLocation: loc })) return;
+        continue;
+      }
+
+      // FRIENDLY: Deploy onto, Retrieve, Move
+      if (state.colorsAssigned && top.color === player.color) {
+        for (const [deployType, available] of handCounts) {
+          for (let deployCount = 1; deployCount <= available; deployCount++) {
+            const incoming = player.hand.pieces.filter(p => p.type === deployType).slice(0, deployCount);
+            // Hand pieces may differ in color (retrieved from mixed stacks), so check every count
+            if (!canStackOn(stack.pieces, incoming, true, rules).valid) continue;
+            if (visit({ type: ActionType.DEPLOY, playerId: playerIndex, deployTo: loc, deployType, deployCount })) return;
+          }
+        }
+
+        if (forEachRetrieveFrom(stack, loc, playerIndex, visit)) return;
+        if (forEachMoveFrom(state, loc, playerIndex, false, rules, visit)) return;
+      }
     }
   }
+};
+
+/**
+ * Generates all legal actions for the given player: exactly the set applyAction accepts,
+ * except RESIGN and TIMEOUT, which are always accepted and never part of choosing a move,
+ * and RETRIEVEs that only differ from a generated one by which identical pieces they pick.
+ * Empty when the game is over or it is not that player's turn.
+ * Used for "Game Over" detection (Stalemate), so any gap here decides games.
+ */
+export const getLegalActions = (state: GameState, playerIndex: number, rules: RuleSet = state.rules): PlayerAction[] => {
+  const actions: PlayerAction[] = [];
+  forEachLegalAction(state, playerIndex, rules, (action) => {
+    actions.push(action);
+    return false;
+  });
+  return actions;
+};
+
+export const isDrawAction = (action: PlayerAction): boolean =>
+  action.type === ActionType.OFFER_DRAW || action.type === ActionType.ACCEPT_DRAW;
+
+/**
+ * Cheaper existence check for stalemate detection (stops at the first legal action).
+ * Draw offers do not count: a player who can only offer a draw is stalemated.
+ */
+export const hasLegalAction = (state: GameState, playerIndex: number, rules: RuleSet = state.rules): boolean => {
+  let found = false;
+  forEachLegalAction(state, playerIndex, rules, (action) => {
+    if (isDrawAction(action)) return false;
+    found = true;
+    return true;
+  });
+  return found;
+};
+
+// --- Chain Planning ---
+// Whole chain captures for the UI and bots, built on the same generator and applyAction as
+// single actions, so a plan is exactly what playing its steps one by one would do.
+
+const MAX_CHAIN_PLANS = 2000;
+
+/**
+ * Chain steps the active player's stack at 'from' can make now: captures, friendly merges and
+ * retrieves to hand (TO_HAND and, where stacking is allowed, STACK_IF_POSSIBLE).
+ * Outside a chain these start one; during a chain only the chaining stack has any.
+ */
+const chainStepsFrom = (state: GameState, from: Location, rules: RuleSet): PlayerAction[] => {
+  if (state.isGameOver || !state.colorsAssigned || !isValidCoordinate(from, rules)) return [];
+  const pending = state.pendingChainCapture;
+  if (pending && (pending.row !== from.row || pending.col !== from.col)) return [];
+  const top = getTopPiece(state.board[from.row][from.col]);
+  if (!top || !top.faceUp || top.color !== state.players[state.activePlayerIndex].color) return [];
+
+  const actions: PlayerAction[] = [];
+  forEachMoveFrom(state, from, state.activePlayerIndex, true, rules, (action) => {
+    actions.push(action);
+    return false;
+  });
   return actions;
 };
+
+/**
+ * Every chain the active player can play (or continue) with the stack at 'from', shortest first.
+ * The player may pass after any step, so each prefix of a plan is a plan too. Every step takes a
+ * stack off the board, so chains are finite, but their number grows quickly: enumeration stops
+ * after 'limit' plans, which then still include every chain shorter than the longest returned.
+ */
+export const planChains = (state: GameState, from: Location, limit: number = MAX_CHAIN_PLANS): ChainPlan[] => {
+  const plans: ChainPlan[] = [];
+  const root: ChainPlan = { from: { ...from }, steps: [], actions: [], states: [] };
+
+  // Breadth-first: plans[] doubles as the queue of chains to extend
+  for (let i = -1; i < plans.length; i++) {
+    const parent = i < 0 ? root : plans[i];
+    const current = i < 0 ? state : parent.states[parent.states.length - 1];
+    if (i >= 0 && !current.pendingChainCapture) continue;
+    const loc = i < 0 ? from : parent.steps[parent.steps.length - 1].to;
+
+    for (const action of chainStepsFrom(current, loc, state.rules)) {
+      const next = applyAction(current, action);
+      if (next.error) continue;
+      plans.push({
+        from: root.from,
+        steps: [...parent.steps, { to: action.to!, captureResolution: action.captureResolution! }],
+        actions: [...parent.actions, action],
+        states: [...parent.states, next],
+      });
+      if (plans.length >= limit) return plans;
+    }
+  }
+  return plans;
+};
+
+/**
+ * Plays a whole chain for the active player, all or nothing: the state after the last step, or
+ * the original state with the error of the first step that fails. Every step must land on a
+ * stack, and every step but the last must leave the chain pending. With 'endTurn', a chain still
+ * pending after the last step is closed with a PASS.
+ */
+export const applyChain = (state: GameState, from: Location, steps: ChainStep[], endTurn: boolean = false): GameState => {
+  const rejected = (violation: RuleViolation) => fail({ ...state }, violation);
+  if (steps.length === 0) return rejected({ code: RuleViolationCode.MISSING_PARAMS, actionType: ActionType.MOVE });
+
+  let current = state;
+  let loc = from;
+  for (let i = 0; i < steps.length; i++) {
+    if (i > 0 && !current.pendingChainCapture) return rejected({ code: RuleViolationCode.CHAIN_ENDED, step: i + 1 });
+
+    const { to, captureResolution } = steps[i];
+    if (isValidCoordinate(to, state.rules) && !current.board[to.row][to.col]) {
+      return rejected({ code: RuleViolationCode.CHAIN_INTERACTION_REQUIRED });
+    }
+    const next = applyAction(current, { type: ActionType.MOVE, playerId: current.activePlayerIndex, from: loc, to, captureResolution });
+    if (next.error) return rejected(next.error);
+    current = next;
+    loc = to;
+  }
+
+  if (endTurn && current.pendingChainCapture) {
+    current = applyAction(current, { type: ActionType.PASS, playerId: current.activePlayerIndex });
+  }
+  return current;
+};
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupMoves, redo, replayGameRecord, undo } from './gameRecord';
+import { formatActions, parseActions, parsePosition } from './notation';
+
+describe('Move list', () => {
+  // Chariot a1 takes c1 and passes up e1; black replies, then the chariot takes e1 after all
+  const start = parsePosition('R1r1r3/8/8/7p - - RB 0 - 0');
+  const record = replayGameRecord(start, parseActions('a1-c1 -- h4-h3 c1-e1', start));
+
+  it('groups a chain capture with its PASS', () => {
+    assert.equal(record.actions.length, 4);
+    assert.deepEqual(groupMoves(record).map(g => [g.player, g.startPly, g.endPly, formatActions(g.actions)]), [
+      [0, 0, 2, 'a1-c1 --'],
+      [1, 2, 3, 'h4-h3'],
+      [0, 3, 4, 'c1-e1'],
+    ]);
+  });
+
+  it('agrees with chain-grouped undo and redo', () => {
+    const ends = groupMoves(record).map(g => g.endPly);
+    let cursor = replayGameRecord(start, record.actions, 0);
+    for (const end of ends) {
+      cursor = redo(cursor, true);
+      assert.equal(cursor.ply, end);
+    }
+    assert.equal(undo(cursor, true).ply, ends[ends.length - 2]);
+  });
+
+  it('is empty for a fresh game', () => {
+    assert.deepEqual(groupMoves(replayGameRecord(start, [])), []);
+  });
+});
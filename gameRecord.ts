@@ -0,0 +1,125 @@
+
+import { GameState, PlayerAction } from './types';
+import { applyAction } from './gameEngine';
+
+/**
+ * Full game record: the initial position plus every accepted action.
+ * `states[i]` is the position after the first i actions (states[0] === initialState),
+ * `ply` is how many of those actions are currently applied (undo/redo cursor).
+ */
+export interface GameRecord {
+  initialState: GameState;
+  actions: PlayerAction[];
+  states: GameState[];
+  ply: number;
+}
+
+export const createGameRecord = (initialState: GameState): GameRecord => ({
+  initialState,
+  actions: [],
+  states: [initialState],
+  ply: 0,
+});
+
+export const getCurrentState = (record: GameRecord): GameState => record.states[record.ply];
+
+export const getStateAtPly = (record: GameRecord, ply: number): GameState => {
+  const clamped = Math.max(0, Math.min(ply, record.actions.length));
+  return record.states[clamped];
+};
+
+/**
+ * Appends an action at the current ply, discarding any redo branch.
+ * `result` may be passed when the caller already ran applyAction; rejected actions (error set)
+ * leave the record unchanged.
+ */
+export const recordAction = (
+  record: GameRecord,
+  action: PlayerAction,
+  result: GameState = applyAction(getCurrentState(record), action)
+): GameRecord => {
+  if (result.error) return record;
+
+  return {
+    initialState: record.initialState,
+    actions: [...record.actions.slice(0, record.ply), action],
+    states: [...record.states.slice(0, record.ply + 1), result],
+    ply: record.ply + 1,
+  };
+};
+
+/**
+ * Rebuilds a record by replaying actions from an initial state.
+ * Stops at the first action the engine rejects, so a corrupt list never yields an illegal position.
+ */
+export const replayGameRecord = (initialState: GameState, actions: PlayerAction[], ply: number = actions.length): GameRecord => {
+  let record = createGameRecord(initialState);
+  for (const action of actions) {
+    const next = recordAction(record, action);
+    if (next === record) break;
+    record = next;
+  }
+  return jumpToPly(record, ply);
+};
+
+export const jumpToPly = (record: GameRecord, ply: number): GameRecord => {
+  const clamped = Math.max(0, Math.min(ply, record.actions.length));
+  if (clamped === record.ply) return record;
+  return { ...record, ply: clamped };
+};
+
+export const canUndo = (record: GameRecord): boolean => record.ply > 0;
+
+export const canRedo = (record: GameRecord): boolean => record.ply < record.actions.length;
+
+// A ply sits "inside" a chain capture when the position there is still waiting on the chaining piece.
+const isMidChain = (record: GameRecord, ply: number): boolean => !!record.states[ply].pendingChainCapture;
+
+/**
+ * Steps back one action. With `groupChains`, a whole chain-capture sequence
+ * (first capture through the final capture/PASS) is undone as one unit.
+ */
+export const undo = (record: GameRecord, groupChains: boolean = false): GameRecord => {
+  if (!canUndo(record)) return record;
+
+  let ply = record.ply - 1;
+  if (groupChains) {
+    while (ply > 0 && isMidChain(record, ply)) ply--;
+  }
+  return jumpToPly(record, ply);
+};
+
+/**
+ * Steps forward one action. With `groupChains`, replays until the chain capture is resolved.
+ */
+export const redo = (record: GameRecord, groupChains: boolean = false): GameRecord => {
+  if (!canRedo(record)) return record;
+
+  let ply = record.ply + 1;
+  if (groupChains) {
+    while (ply < record.actions.length && isMidChain(record, ply)) ply++;
+  }
+  return jumpToPly(record, ply);
+};
+
+// One entry of the move list: a single action, or a whole chain capture (through its final capture/PASS)
+export interface MoveGroup {
+  player: number;
+  startPly: number; // Ply before the first action
+  endPly: number;   // Ply after the last action
+  actions: PlayerAction[];
+}
+
+/**
+ * Splits the record's actions into move-list entries, grouping chains the way undo/redo step over them.
+ */
+export const groupMoves = (record: GameRecord): MoveGroup[] => {
+  const groups: MoveGroup[] = [];
+  for (let ply = 0; ply < record.actions.length; ) {
+    let end = ply + 1;
+    while (end < record.actions.length && isMidChain(record, end)) end++;
+    groups.push({ player: record.actions[ply].playerId, startPly: ply, endPly: end, actions: record.actions.slice(ply, end) });
+    ply = end;
+  }
+  return groups;
+};
@@ -0,0 +1,511 @@
+
+import { PieceType } from './types';
+
+// --- Locales & Message Catalogs ---
+//
+// Plain data + a formatter, no React, so the server and engine-side helpers can use it too.
+// Messages use {name} placeholders. The zh-CN catalog defines the keys; every other
+// catalog must provide all of them (enforced by the Record<MessageKey, string> type).
+
+export type Locale = 'zh-CN' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English',
+};
+
+const zhCN = {
+  // Header
+  'app.title': '叠叠象棋',
+  'header.status': '回合: {turn} | 当前: {player} | 种子: {seed}',
+  'header.aiThinking': '电脑思考中...',
+  'header.rules': '规则',
+  'header.rulesHint': '新规则在重新开始后生效',
+  'header.timeControl': '用时',
+  'header.timeControlHint': '新用时在重新开始后生效',
+  'header.untimed': '不计时',
+  'header.language': '语言',
+  'header.undo': '悔棋',
+  'header.redo': '重做',
+  'header.export': '导出',
+  'header.import': '导入',
+  'header.replay': '复盘',
+  'header.editPosition': '摆局',
+  'header.offerDraw': '提和',
+  'header.resign': '认输',
+  'header.restart': '重新开始',
+  'header.importFailed': '导入失败: {message}',
+  'header.confirmResign': '玩家 {player} 确定认输吗？',
+
+  // Players & sides
+  'player.top': '上方玩家',
+  'player.bottom': '下方玩家',
+  'player.topShort': '上方',
+  'player.bottomShort': '下方',
+  'player.numbered': '玩家 {player}',
+  'color.red': '红方',
+  'color.black': '黑方',
+  'controller.HUMAN': '玩家',
+  'controller.EASY': '电脑 (简单)',
+  'controller.MEDIUM': '电脑 (中等)',
+  'controller.HARD': '电脑 (困难)',
+
+  // Online lobby
+  'online.label': '联机',
+  'online.roomPlaceholder': '房间号',
+  'online.join': '加入房间',
+  'online.leave': '离开',
+  'online.connected': '已连接',
+  'online.connecting': '连接中...',
+  'online.reconnecting': '重新连接中...',
+  'online.room': '房间 {room}',
+  'online.spectating': '观战',
+  'online.youAreTop': '你是上方玩家',
+  'online.youAreBottom': '你是下方玩家',
+  'online.opponentOnline': '对手在线',
+  'online.opponentOffline': '对手离线',
+
+  // Hands
+  'hand.undecided': '未定阵营',
+  'hand.red': '红方手牌',
+  'hand.black': '黑方手牌',
+  'hand.empty': '无棋子',
+
+  // Pieces
+  'piece.hidden': '暗',
+  'piece.GENERAL': '将帅',
+  'piece.ADVISOR': '士',
+  'piece.ELEPHANT': '象',
+  'piece.CHARIOT': '车',
+  'piece.HORSE': '马',
+  'piece.CANNON': '炮',
+  'piece.SOLDIER': '兵卒',
+
+  // Interaction & deploy dialogs
+  'interaction.friendlyTitle': '己方互动',
+  'interaction.enemyTitle': '捕获敌方',
+  'interaction.prompt': '请选择处理方式:',
+  'interaction.friendlyToHand': '回收连吃',
+  'interaction.friendlyToHandHint': '(收回此子，可继续连吃)',
+  'interaction.enemyToHand': '收为己用',
+  'interaction.enemyToHandHint': '(变色并入手牌)',
+  'interaction.friendlyStack': '合并叠加',
+  'interaction.friendlyStackHint': '(增加层数)',
+  'interaction.enemyStack': '镇压叠加',
+  'interaction.enemyStackHint': '(直接叠在下方)',
+  'interaction.cancel': '取消操作',
+  'deploy.title': '批量部署 ({piece})',
+  'deploy.count': '数量选择 (最多 {max})',
+  'deploy.confirm': '确认部署',
+  'common.cancel': '取消',
+
+  // Chains
+  'chain.fastButton': '⚡ 快速连吃 ({count})',
+  'chain.fastMode': '快速连吃模式',
+  'chain.selected': '已选: {count}',
+  'chain.execute': '确认执行',
+  'chain.triggered': '触发连吃!',
+  'chain.continuePrompt': '请继续吃子/回收，或...',
+  'chain.pass': '跳过',
+
+  // Replay
+  'replay.title': '复盘',
+  'replay.play': '▶ 播放',
+  'replay.pause': '⏸ 暂停',
+  'replay.toStart': '⏮',
+  'replay.stepBack': '◀',
+  'replay.stepForward': '▶',
+  'replay.toEnd': '⏭',
+  'replay.position': '第 {ply} / {total} 步',
+  'replay.moves': '着法',
+  'replay.exit': '退出复盘',
+
+  // Board accessibility (cell labels and announcements)
+  'board.label': '棋盘 (方向键移动，回车选择)',
+  'cell.position': '第 {row} 行第 {col} 列',
+  'cell.empty': '{position}，空',
+  'cell.hidden': '{position}，暗子，{size} 层',
+  'cell.stack': '{position}，{color}{piece}，{size} 层',
+  'cell.selected': '已选中',
+  'cell.chaining': '连吃中',
+  'announce.FLIP': '玩家 {player} 翻开 {square}',
+  'announce.MOVE': '玩家 {player} 从 {from} 走到 {to}',
+  'announce.DEPLOY': '玩家 {player} 在 {square} 部署 {count} 枚{piece}',
+  'announce.RETRIEVE': '玩家 {player} 从 {square} 收回 {count} 枚',
+  'announce.PASS': '玩家 {player} 结束连吃',
+  'announce.OFFER_DRAW': '玩家 {player} 提和',
+  'announce.ACCEPT_DRAW': '玩家 {player} 接受和棋',
+  'announce.RESIGN': '玩家 {player} 认输',
+  'announce.TIMEOUT': '玩家 {player} 超时',
+
+  // Stack inspector
+  'stack.title': '棋叠 {square}',
+  'stack.base': '基底: {piece}',
+  'stack.size': '{size} / {limit} 层',
+  'stack.order': '底 → 顶',
+  'stack.selectHint': '点选要收回手牌的棋子 (至少留下一枚)',
+  'stack.retrieve': '收回 {count} 枚',
+  'stack.clear': '清除选择',
+  'stack.piece': '第 {level} 层 {piece}',
+  'stack.picked': '已选 {piece}',
+  'stack.unpicked': '已取消 {piece}',
+
+  // Move hints (BoardView hover preview)
+  'hint.MOVE': '移动',
+  'hint.CAPTURE': '吃子',
+  'hint.MERGE': '合并',
+  'hint.TO_HAND': '收入手牌',
+  'hint.DEPLOY': '部署',
+  'hint.weights': '{weight} 层 → 目标 {target} 层',
+  'hint.toHand': '入手 +{count}',
+  'hint.stacked': '叠成 {weight} 层',
+  'hint.deployCount': '{count} 枚',
+
+  // Position editor (analysis mode)
+  'editor.title': '摆局分析',
+  'editor.piece': '棋子',
+  'editor.faceUp': '明子',
+  'editor.square': '格子 {square}',
+  'editor.pickSquare': '点击棋盘选择格子',
+  'editor.addPiece': '叠上',
+  'editor.clearSquare': '清空格子',
+  'editor.flip': '翻面',
+  'editor.remove': '移除',
+  'editor.hand': '{player} 手牌',
+  'editor.addToHand': '加入手牌',
+  'editor.toMove': '轮到',
+  'editor.colors': '颜色',
+  'editor.colorsUnassigned': '未分配 (尚未翻子)',
+  'editor.player0Red': '玩家 0 红方',
+  'editor.player0Black': '玩家 0 黑方',
+  'editor.fromGame': '载入当前局面',
+  'editor.clearBoard': '清空棋盘',
+  'editor.valid': '局面有效',
+  'editor.play': '从此局面开始',
+  'editor.cancel': '退出摆局',
+  'setup.TOO_MANY_PIECES': '{piece}共 {count} 枚，最多 {limit} 枚',
+  'setup.TOO_MANY_HIDDEN': '{color}暗子{piece}有 {count} 枚，每方最多 {limit} 枚',
+  'setup.STACK_TOO_TALL': '{square}：{piece}叠最多 {limit} 层 (现有 {size} 层)',
+  'setup.STACK_TYPE_MIX': '{square}：{base}叠上不能有{piece}',
+  'setup.HIDDEN_IN_STACK': '{square}：暗子不能在棋叠中',
+  'setup.COLORS_UNASSIGNED': '未分配颜色时所有棋子须为暗子且手牌为空',
+  'setup.NO_LEGAL_ACTION': '玩家 {player} 无棋可走',
+
+  // Draw offers
+  'draw.offered': '玩家 {player} 已提和，等待对方回应',
+  'draw.incoming': '玩家 {player} 提和 (继续走棋即拒绝)',
+  'draw.accept': '接受和棋',
+
+  // Footer
+  'footer.sides': '红方: {red} | 黑方: {black}',
+  'footer.flipToStart': '请翻开任意棋子以决定红黑阵营',
+
+  // Game over
+  'gameOver.title': '游戏结束',
+  'gameOver.draw': '和棋',
+  'gameOver.winner': '获胜者: 玩家 {player}',
+  'gameOver.loserReason': '玩家 {player} {reason}',
+  'gameOver.summaryDraw': '和棋 ({reason})',
+  'gameOver.summaryWin': '玩家 {winner} 获胜 (玩家 {loser} {reason})',
+  'gameOver.viewBoard': '查看终局',
+  'gameOver.details': '详情',
+  'gameOver.playAgain': '再来一局',
+  'endReason.ELIMINATION': '棋子被吃光',
+  'endReason.STALEMATE': '无子可走',
+  'endReason.RESIGNATION': '认输',
+  'endReason.TIMEOUT': '超时',
+  'endReason.REPETITION': '局面重复',
+  'endReason.NO_PROGRESS': '长时间无吃子或翻子',
+  'endReason.TURN_LIMIT': '回合数达到上限',
+  'endReason.AGREED_DRAW': '双方同意和棋',
+
+  // Rule violations (see violations.ts)
+  'violation.GAME_OVER': '游戏已结束',
+  'violation.NOT_YOUR_TURN': '不是你的回合',
+  'violation.INVALID_PLAYER': '无效的玩家',
+  'violation.MISSING_PARAMS': '{action} 缺少参数',
+  'violation.UNKNOWN_ACTION': '未知的动作 {action}',
+  'violation.INVALID_COORDINATES': '坐标无效 ({row}, {col})',
+  'violation.DRAW_ALREADY_OFFERED': '已有和棋提议',
+  'violation.NO_DRAW_OFFER': '对方没有提和',
+  'violation.CHAIN_MOVE_REQUIRED': '连吃状态下必须继续吃子或跳过',
+  'violation.CHAIN_WRONG_PIECE': '连吃状态下只能移动 {square} 的棋子',
+  'violation.CHAIN_INTERACTION_REQUIRED': '连吃状态下必须吃子',
+  'violation.NOT_CHAINING': '不在连吃状态，不能跳过',
+  'violation.CHAIN_ENDED': '连吃在第 {step} 步之前已结束',
+  'violation.EMPTY_CELL': '{square} 没有棋子',
+  'violation.ALREADY_REVEALED': '{square} 已经翻开',
+  'violation.SAME_SQUARE': '不能原地移动',
+  'violation.HIDDEN_PIECE': '{square} 是暗子',
+  'violation.NOT_YOUR_PIECE': '{square} 不是你的棋子',
+  'violation.INVALID_MOVE_PATTERN': '{piece} 不能这样走',
+  'violation.CANNON_MOVE_SCREENS': '炮移动到空位时不能跨子',
+  'violation.CANNON_SCREENS': '炮必须隔 {required} 个棋子才能攻击或互动 (现有 {actual} 个)',
+  'violation.CAPTURE_TOO_LIGHT': '层数不足：我方({attacker}) vs 敌方({defender})',
+  'violation.CAPTURE_TOO_LIGHT_STRICT': '层数不足：我方({attacker}) 须大于 敌方({defender})',
+  'violation.CAPTURE_RANK_TOO_LOW': '等级不足：我方({attacker}) vs 敌方({defender})',
+  'violation.STACK_COLOR_MISMATCH': '不能叠加：颜色不同',
+  'violation.STACK_TYPE_MISMATCH': '不能叠加：{base} 叠上不能加 {incoming}',
+  'violation.STACK_LIMIT_EXCEEDED': '不能叠加：{base} 最多 {limit} 层，将会有 {size} 层',
+  'violation.INVALID_COUNT': '数量必须至少为 1 (当前 {count})',
+  'violation.NOT_ENOUGH_IN_HAND': '手牌中的{piece}不足 ({available} < {requested})',
+  'violation.DEPLOY_ON_ENEMY': '不能部署到敌方棋子 {square} 上',
+  'violation.NOTHING_TO_RETRIEVE': '没有选择要回收的棋子',
+  'violation.DUPLICATE_PIECE_IDS': '棋子重复',
+  'violation.MUST_LEAVE_PIECE': '至少要留下一个棋子',
+  'violation.PIECE_NOT_IN_STACK': '棋子 {id} 不在该叠中',
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+const en: Record<MessageKey, string> = {
+  'app.title': 'Stacking Xiangqi',
+  'header.status': 'Turn: {turn} | To move: {player} | Seed: {seed}',
+  'header.aiThinking': 'Computer thinking...',
+  'header.rules': 'Rules',
+  'header.rulesHint': 'New rules apply after restarting',
+  'header.timeControl': 'Clock',
+  'header.timeControlHint': 'New time control applies after restarting',
+  'header.untimed': 'Untimed',
+  'header.language': 'Language',
+  'header.undo': 'Undo',
+  'header.redo': 'Redo',
+  'header.export': 'Export',
+  'header.import': 'Import',
+  'header.replay': 'Replay',
+  'header.editPosition': 'Set up',
+  'header.offerDraw': 'Offer draw',
+  'header.resign': 'Resign',
+  'header.restart': 'Restart',
+  'header.importFailed': 'Import failed: {message}',
+  'header.confirmResign': 'Player {player}, really resign?',
+
+  'player.top': 'Top player',
+  'player.bottom': 'Bottom player',
+  'player.topShort': 'Top',
+  'player.bottomShort': 'Bottom',
+  'player.numbered': 'Player {player}',
+  'color.red': 'Red',
+  'color.black': 'Black',
+  'controller.HUMAN': 'Human',
+  'controller.EASY': 'Computer (easy)',
+  'controller.MEDIUM': 'Computer (medium)',
+  'controller.HARD': 'Computer (hard)',
+
+  'online.label': 'Online',
+  'online.roomPlaceholder': 'Room id',
+  'online.join': 'Join room',
+  'online.leave': 'Leave',
+  'online.connected': 'Connected',
+  'online.connecting': 'Connecting...',
+  'online.reconnecting': 'Reconnecting...',
+  'online.room': 'Room {room}',
+  'online.spectating': 'Spectating',
+  'online.youAreTop': 'You are the top player',
+  'online.youAreBottom': 'You are the bottom player',
+  'online.opponentOnline': 'opponent online',
+  'online.opponentOffline': 'opponent offline',
+
+  'hand.undecided': 'No side yet',
+  'hand.red': 'Red hand',
+  'hand.black': 'Black hand',
+  'hand.empty': 'Empty',
+
+  'piece.hidden': '?',
+  'piece.GENERAL': 'General',
+  'piece.ADVISOR': 'Advisor',
+  'piece.ELEPHANT': 'Elephant',
+  'piece.CHARIOT': 'Chariot',
+  'piece.HORSE': 'Horse',
+  'piece.CANNON': 'Cannon',
+  'piece.SOLDIER': 'Soldier',
+
+  'interaction.friendlyTitle': 'Friendly interaction',
+  'interaction.enemyTitle': 'Capture',
+  'interaction.prompt': 'Choose what to do:',
+  'interaction.friendlyToHand': 'Retrieve and chain',
+  'interaction.friendlyToHandHint': '(take it back to hand, chain may continue)',
+  'interaction.enemyToHand': 'Take to hand',
+  'interaction.enemyToHandHint': '(converted to your color)',
+  'interaction.friendlyStack': 'Merge stacks',
+  'interaction.friendlyStackHint': '(adds height)',
+  'interaction.enemyStack': 'Stack on top',
+  'interaction.enemyStackHint': '(captured pieces stay underneath)',
+  'interaction.cancel': 'Cancel',
+  'deploy.title': 'Deploy ({piece})',
+  'deploy.count': 'How many (max {max})',
+  'deploy.confirm': 'Deploy',
+  'common.cancel': 'Cancel',
+
+  'chain.fastButton': '⚡ Fast chain ({count})',
+  'chain.fastMode': 'Fast chain mode',
+  'chain.selected': 'Selected: {count}',
+  'chain.execute': 'Run chain',
+  'chain.triggered': 'Chain capture!',
+  'chain.continuePrompt': 'Keep capturing / retrieving, or...',
+  'chain.pass': 'Pass',
+
+  'replay.title': 'Replay',
+  'replay.play': '▶ Play',
+  'replay.pause': '⏸ Pause',
+  'replay.toStart': '⏮',
+  'replay.stepBack': '◀',
+  'replay.stepForward': '▶',
+  'replay.toEnd': '⏭',
+  'replay.position': 'Ply {ply} / {total}',
+  'replay.moves': 'Moves',
+  'replay.exit': 'Leave replay',
+
+  'board.label': 'Board (arrow keys to move, Enter to select)',
+  'cell.position': 'row {row} col {col}',
+  'cell.empty': '{position}, empty',
+  'cell.hidden': '{position}, face-down stack of {size}',
+  'cell.stack': '{position}, {color} {piece} stack of {size}',
+  'cell.selected': 'selected',
+  'cell.chaining': 'chaining',
+  'announce.FLIP': 'Player {player} flipped {square}',
+  'announce.MOVE': 'Player {player} moved {from} to {to}',
+  'announce.DEPLOY': 'Player {player} deployed {count} {piece} on {square}',
+  'announce.RETRIEVE': 'Player {player} retrieved {count} from {square}',
+  'announce.PASS': 'Player {player} ended the chain',
+  'announce.OFFER_DRAW': 'Player {player} offers a draw',
+  'announce.ACCEPT_DRAW': 'Player {player} accepted the draw',
+  'announce.RESIGN': 'Player {player} resigned',
+  'announce.TIMEOUT': 'Player {player} ran out of time',
+
+  'stack.title': 'Stack {square}',
+  'stack.base': 'Base: {piece}',
+  'stack.size': '{size} / {limit} layers',
+  'stack.order': 'Bottom → top',
+  'stack.selectHint': 'Pick pieces to retrieve to hand (at least one stays)',
+  'stack.retrieve': 'Retrieve {count}',
+  'stack.clear': 'Clear',
+  'stack.piece': 'Layer {level}: {piece}',
+  'stack.picked': '{piece} selected',
+  'stack.unpicked': '{piece} not selected',
+
+  'hint.MOVE': 'Move',
+  'hint.CAPTURE': 'Capture',
+  'hint.MERGE': 'Merge',
+  'hint.TO_HAND': 'Take to hand',
+  'hint.DEPLOY': 'Deploy',
+  'hint.weights': '{weight} layers onto {target}',
+  'hint.toHand': 'To hand +{count}',
+  'hint.stacked': 'Stack of {weight}',
+  'hint.deployCount': '{count} pieces',
+
+  // Position editor (analysis mode)
+  'editor.title': 'Position setup',
+  'editor.piece': 'Piece',
+  'editor.faceUp': 'Face up',
+  'editor.square': 'Square {square}',
+  'editor.pickSquare': 'Click a square on the board',
+  'editor.addPiece': 'Stack on',
+  'editor.clearSquare': 'Clear square',
+  'editor.flip': 'Flip',
+  'editor.remove': 'Remove',
+  'editor.hand': '{player} hand',
+  'editor.addToHand': 'Add to hand',
+  'editor.toMove': 'To move',
+  'editor.colors': 'Colors',
+  'editor.colorsUnassigned': 'Unassigned (nothing flipped yet)',
+  'editor.player0Red': 'Player 0 red',
+  'editor.player0Black': 'Player 0 black',
+  'editor.fromGame': 'Load current position',
+  'editor.clearBoard': 'Clear board',
+  'editor.valid': 'Position is valid',
+  'editor.play': 'Play from here',
+  'editor.cancel': 'Leave setup',
+  'setup.TOO_MANY_PIECES': '{count} {piece} pieces, at most {limit}',
+  'setup.TOO_MANY_HIDDEN': '{count} face-down {color} {piece} pieces, at most {limit} per side',
+  'setup.STACK_TOO_TALL': '{square}: {piece} stacks hold at most {limit} (has {size})',
+  'setup.STACK_TYPE_MIX': '{square}: a {base} stack cannot hold a {piece}',
+  'setup.HIDDEN_IN_STACK': '{square}: face-down pieces cannot be in a stack',
+  'setup.COLORS_UNASSIGNED': 'Without assigned colors every piece must be face down and hands empty',
+  'setup.NO_LEGAL_ACTION': 'Player {player} has no legal move',
+
+  'draw.offered': 'Player {player} offered a draw, waiting for the opponent',
+  'draw.incoming': 'Player {player} offers a draw (playing on declines)',
+  'draw.accept': 'Accept draw',
+
+  'footer.sides': 'Red: {red} | Black: {black}',
+  'footer.flipToStart': 'Flip any piece to decide who plays red',
+
+  'gameOver.title': 'Game over',
+  'gameOver.draw': 'Draw',
+  'gameOver.winner': 'Winner: Player {player}',
+  'gameOver.loserReason': 'Player {player}: {reason}',
+  'gameOver.summaryDraw': 'Draw ({reason})',
+  'gameOver.summaryWin': 'Player {winner} wins (player {loser}: {reason})',
+  'gameOver.viewBoard': 'View board',
+  'gameOver.details': 'Details',
+  'gameOver.playAgain': 'Play again',
+  'endReason.ELIMINATION': 'all pieces captured',
+  'endReason.STALEMATE': 'no legal moves',
+  'endReason.RESIGNATION': 'resigned',
+  'endReason.TIMEOUT': 'out of time',
+  'endReason.REPETITION': 'repetition',
+  'endReason.NO_PROGRESS': 'no captures or flips for too long',
+  'endReason.TURN_LIMIT': 'turn limit reached',
+  'endReason.AGREED_DRAW': 'agreed',
+
+  'violation.GAME_OVER': 'Game is over',
+  'violation.NOT_YOUR_TURN': 'Not your turn',
+  'violation.INVALID_PLAYER': 'Invalid player',
+  'violation.MISSING_PARAMS': 'Missing {action} parameters',
+  'violation.UNKNOWN_ACTION': 'Unknown action {action}',
+  'violation.INVALID_COORDINATES': 'Invalid coordinates ({row}, {col})',
+  'violation.DRAW_ALREADY_OFFERED': 'A draw offer is already open',
+  'violation.NO_DRAW_OFFER': 'No draw offer to accept',
+  'violation.CHAIN_MOVE_REQUIRED': 'Must continue the chain or pass',
+  'violation.CHAIN_WRONG_PIECE': 'Must move the chaining piece at {square}',
+  'violation.CHAIN_INTERACTION_REQUIRED': 'Must capture or interact during a chain',
+  'violation.NOT_CHAINING': 'Cannot pass when not chaining',
+  'violation.CHAIN_ENDED': 'The chain ended before step {step}',
+  'violation.EMPTY_CELL': 'No piece at {square}',
+  'violation.ALREADY_REVEALED': '{square} is already revealed',
+  'violation.SAME_SQUARE': 'Cannot move to the same square',
+  'violation.HIDDEN_PIECE': 'Hidden piece at {square}',
+  'violation.NOT_YOUR_PIECE': 'Not your piece at {square}',
+  'violation.INVALID_MOVE_PATTERN': '{piece} cannot move like that',
+  'violation.CANNON_MOVE_SCREENS': 'A cannon cannot jump when moving to an empty square',
+  'violation.CANNON_SCREENS': 'A cannon needs exactly {required} screen(s) to interact (found {actual})',
+  'violation.CAPTURE_TOO_LIGHT': 'Stack too light: {attacker} vs {defender}',
+  'violation.CAPTURE_TOO_LIGHT_STRICT': 'Stack too light: {attacker} must be more than {defender}',
+  'violation.CAPTURE_RANK_TOO_LOW': 'Rank too low: {attacker} vs {defender}',
+  'violation.STACK_COLOR_MISMATCH': 'Cannot stack: colors differ',
+  'violation.STACK_TYPE_MISMATCH': 'Cannot stack: a {base} stack cannot take a {incoming}',
+  'violation.STACK_LIMIT_EXCEEDED': 'Cannot stack: {base} stacks hold at most {limit}, would be {size}',
+  'violation.INVALID_COUNT': 'Count must be at least 1 (got {count})',
+  'violation.NOT_ENOUGH_IN_HAND': 'Not enough {piece} in hand ({available} < {requested})',
+  'violation.DEPLOY_ON_ENEMY': 'Cannot deploy onto the enemy at {square}',
+  'violation.NOTHING_TO_RETRIEVE': 'Nothing selected to retrieve',
+  'violation.DUPLICATE_PIECE_IDS': 'Duplicate pieces',
+  'violation.MUST_LEAVE_PIECE': 'Must leave at least 1 piece',
+  'violation.PIECE_NOT_IN_STACK': 'Piece {id} is not in that stack',
+};
+
+export const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'zh-CN': zhCN,
+  en,
+};
+
+export type MessageParams = Record<string, string | number>;
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const template = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export const pieceName = (locale: Locale, type: PieceType): string => translate(locale, `piece.${type}`);
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGS;
+
+// Browser language when nothing was chosen yet
+export const detectLocale = (): Locale => {
+  const lang = typeof navigator === 'undefined' ? '' : navigator.language;
+  return lang.toLowerCase().startsWith('zh') ? 'zh-CN' : lang ? 'en' : DEFAULT_LOCALE;
+};
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selfPlay } from './fuzz';
+import { parsePosition } from './notation';
+import { formatSquare } from './squares';
+import { MoveHintKind, getDeployHints, getMoveHintsFrom } from './moveHints';
+import { ActionType, CaptureResolution, PieceType } from './types';
+
+const kinds = (hints: ReturnType<typeof getMoveHintsFrom>): Record<string, MoveHintKind> =>
+  Object.fromEntries(hints.map(h => [formatSquare(h.to), h.kind]));
+
+describe('Move hints', () => {
+  // Chariot a1: enemy on c1, friendly chariot on a3, friendly cannon on a2 blocks the file
+  const state = parsePosition('R1r5/C7/R7/7p - - RB 0 - 0');
+
+  it('tells moves, captures, merges and retrieves apart', () => {
+    assert.deepEqual(kinds(getMoveHintsFrom(state, { row: 0, col: 0 })), {
+      b1: MoveHintKind.MOVE,
+      c1: MoveHintKind.CAPTURE,
+      a2: MoveHintKind.TO_HAND,
+    });
+    assert.equal(kinds(getMoveHintsFrom(state, { row: 2, col: 0 })).a2, MoveHintKind.TO_HAND);
+    assert.equal(kinds(getMoveHintsFrom(parsePosition('R7/R7/8/7p - - RB 0 - 0'), { row: 0, col: 0 })).a2, MoveHintKind.MERGE);
+  });
+
+  it('previews the resulting stack and hand for every resolution', () => {
+    const capture = getMoveHintsFrom(state, { row: 0, col: 0 }).find(h => h.kind === MoveHintKind.CAPTURE)!;
+    assert.equal(capture.weight, 1);
+    assert.equal(capture.targetWeight, 1);
+    const byResolution = Object.fromEntries(capture.outcomes.map(o => [o.action.captureResolution, o]));
+    assert.equal(byResolution[CaptureResolution.TO_HAND].stack.pieces.length, 1);
+    assert.equal(byResolution[CaptureResolution.TO_HAND].toHand, 1);
+    assert.equal(byResolution[CaptureResolution.STACK_IF_POSSIBLE].stack.pieces.length, 2);
+    assert.equal(byResolution[CaptureResolution.STACK_IF_POSSIBLE].toHand, 0);
+  });
+
+  it('lists deploy targets with one outcome per count', () => {
+    const hints = getDeployHints(parsePosition('K7/8/8/7p KK - RB 0 - 0'), PieceType.GENERAL);
+    const onto = hints.find(h => formatSquare(h.to) === 'a1')!;
+    assert.equal(onto.kind, MoveHintKind.DEPLOY);
+    assert.deepEqual(onto.outcomes.map(o => o.stack.pieces.length), [2]); // Generals stack to 2
+    assert.deepEqual(hints.find(h => formatSquare(h.to) === 'b1')!.outcomes.map(o => o.toHand), [-1, -2]);
+  });
+
+  it('covers exactly the legal moves and deploys along a game', () => {
+    for (const { state: game, legal } of selfPlay(21).steps) {
+      const hinted = new Set<string>();
+      for (let r = 0; r < game.rules.rows; r++) {
+        for (let c = 0; c < game.rules.cols; c++) {
+          for (const hint of getMoveHintsFrom(game, { row: r, col: c })) hint.outcomes.forEach(o => hinted.add(JSON.stringify(o.action)));
+        }
+      }
+      for (const type of Object.values(PieceType)) {
+        for (const hint of getDeployHints(game, type)) hint.outcomes.forEach(o => hinted.add(JSON.stringify(o.action)));
+      }
+      const expected = legal.filter(a => a.type === ActionType.MOVE || a.type === ActionType.DEPLOY).map(a => JSON.stringify(a));
+      assert.deepEqual([...hinted].sort(), expected.sort());
+    }
+  });
+});
@@ -0,0 +1,95 @@
+
+import { ActionType, CaptureResolution, GameState, Location, PieceStack, PieceType, PlayerAction } from './types';
+import { applyAction, getLegalActions } from './gameEngine';
+
+// --- Move Hints ---
+//
+// Legal destinations for the selected board stack or hand piece type, read off getLegalActions,
+// each with a preview of what every legal action onto that square would leave there.
+
+export enum MoveHintKind {
+  MOVE = 'MOVE',         // Onto an empty square
+  CAPTURE = 'CAPTURE',   // Onto an enemy stack
+  MERGE = 'MERGE',       // Onto a friendly stack that the selection may stack on (or retrieve to hand)
+  TO_HAND = 'TO_HAND',   // Onto a friendly stack, taking it to hand only (a MOVE, not the RETRIEVE action)
+  DEPLOY = 'DEPLOY',     // From hand
+}
+
+export interface MoveOutcome {
+  action: PlayerAction;
+  stack: PieceStack; // Stack on the target square afterwards
+  toHand: number;    // Change in the mover's hand size (negative for deploys)
+}
+
+export interface MoveHint {
+  to: Location;
+  kind: MoveHintKind;
+  weight: number;          // Layers moved (stack height, or pieces deployed by the first outcome)
+  targetWeight: number;    // Layers on the target square now
+  outcomes: MoveOutcome[]; // One per legal action onto the square, in generator order
+}
+
+const weightAt = (state: GameState, loc: Location): number => state.board[loc.row][loc.col]?.pieces.length ?? 0;
+
+const outcomeOf = (state: GameState, action: PlayerAction, to: Location): MoveOutcome => {
+  const result = applyAction(state, action);
+  const mover = state.activePlayerIndex;
+  return {
+    action,
+    stack: result.board[to.row][to.col] ?? { pieces: [] },
+    toHand: result.players[mover].hand.pieces.length - state.players[mover].hand.pieces.length,
+  };
+};
+
+// Groups actions by target square, keeping the order targets first appear in
+const groupByTarget = (actions: PlayerAction[], targetOf: (action: PlayerAction) => Location): [Location, PlayerAction[]][] => {
+  const groups = new Map<string, [Location, PlayerAction[]]>();
+  for (const action of actions) {
+    const to = targetOf(action);
+    const key = `${to.row},${to.col}`;
+    if (!groups.has(key)) groups.set(key, [to, []]);
+    groups.get(key)![1].push(action);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Where the active player's stack at 'from' can go (during a chain: its next interactions).
+ */
+export const getMoveHintsFrom = (state: GameState, from: Location): MoveHint[] => {
+  const moves = getLegalActions(state, state.activePlayerIndex).filter(a =>
+    a.type === ActionType.MOVE && a.from!.row === from.row && a.from!.col === from.col);
+  const mover = state.players[state.activePlayerIndex];
+
+  return groupByTarget(moves, a => a.to!).map(([to, actions]) => {
+    const target = state.board[to.row][to.col];
+    let kind = MoveHintKind.MOVE;
+    if (target) {
+      const top = target.pieces[target.pieces.length - 1];
+      if (top.color !== mover.color) kind = MoveHintKind.CAPTURE;
+      else kind = actions.some(a => a.captureResolution === CaptureResolution.STACK_IF_POSSIBLE) ? MoveHintKind.MERGE : MoveHintKind.TO_HAND;
+    }
+    return {
+      to,
+      kind,
+      weight: weightAt(state, from),
+      targetWeight: weightAt(state, to),
+      outcomes: actions.map(a => outcomeOf(state, a, to)),
+    };
+  });
+};
+
+/**
+ * Where the active player can deploy pieces of 'type' from hand; outcomes go by count.
+ */
+export const getDeployHints = (state: GameState, type: PieceType): MoveHint[] => {
+  const deploys = getLegalActions(state, state.activePlayerIndex).filter(a => a.type === ActionType.DEPLOY && a.deployType === type);
+
+  return groupByTarget(deploys, a => a.deployTo!).map(([to, actions]) => ({
+    to,
+    kind: MoveHintKind.DEPLOY,
+    weight: actions[0].deployCount!,
+    targetWeight: weightAt(state, to),
+    outcomes: actions.map(a => outcomeOf(state, a, to)),
+  }));
+};
@@ -0,0 +1,20 @@
+
+import { PlayerAction, RuleViolation } from './types';
+import { PlayerView } from './playerView';
+
+// --- Online Play Protocol (JSON over WebSocket) ---
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+// Client -> Server
+export type ClientMessage =
+  | { type: 'JOIN'; roomId: string; clientId: string } // Also used to reconnect: same clientId gets its seat back
+  | { type: 'ACTION'; action: PlayerAction }
+  | { type: 'RESYNC' }
+  | { type: 'RESTART' };
+
+// Server -> Client
+export type ServerMessage =
+  | { type: 'JOINED'; roomId: string; seat: number | null } // null = spectator (room full)
+  | { type: 'STATE'; view: PlayerView; ply: number; connected: [boolean, boolean] }
+  | { type: 'ERROR'; message: string; violation?: RuleViolation }; // violation: set when an action was rejected
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selfPlay } from './fuzz';
+import { formatAction, formatActions, formatPosition, parseAction, parseActions, parsePosition } from './notation';
+import { getPlayerView, isRedactedPiece } from './playerView';
+import { ActionType, PlayerAction, RULE_PRESETS, RuleSet, STANDARD_RULES } from './types';
+
+// Every column letter and two-digit rows: squares up to z12
+const WIDE_RULES: RuleSet = { ...STANDARD_RULES, name: 'WIDE', rows: 12, cols: 26 };
+const RULE_SETS = [...Object.values(RULE_PRESETS), WIDE_RULES];
+
+describe('Action notation', () => {
+  for (const rules of RULE_SETS) {
+    it(`round-trips every legal ${rules.name} action`, () => {
+      for (const seed of [1, 2]) {
+        for (const { legal } of selfPlay(seed, rules).steps) {
+          for (const action of legal) assert.deepEqual(parseAction(formatAction(action), action.playerId), action, formatAction(action));
+        }
+      }
+    });
+  }
+
+  it('round-trips the actions that carry no square', () => {
+    for (const playerId of [0, 1]) {
+      for (const type of [ActionType.PASS, ActionType.OFFER_DRAW, ActionType.ACCEPT_DRAW, ActionType.TIMEOUT]) {
+        const action = { type, playerId };
+        assert.deepEqual(parseAction(formatAction(action), playerId), action);
+      }
+    }
+    assert.deepEqual([ActionType.PASS, ActionType.OFFER_DRAW, ActionType.ACCEPT_DRAW, ActionType.TIMEOUT].map(type => formatAction({ type, playerId: 0 })), ['--', '=?', '=', '#t']);
+  });
+
+  it('takes the resigning player from the notation, not the side to move', () => {
+    for (const playerId of [0, 1]) {
+      const action = { type: ActionType.RESIGN, playerId };
+      assert.equal(formatAction(action), `#${playerId}`);
+      assert.deepEqual(parseAction(`#${playerId}`, 1 - playerId), action);
+    }
+  });
+
+  it('round-trips whole games as action lists', () => {
+    for (const rules of RULE_SETS) {
+      const { steps } = selfPlay(3, rules);
+      const start = steps[0].state;
+      let state = start;
+      const actions: PlayerAction[] = [];
+      for (const step of steps.slice(1)) {
+        actions.push(step.state.lastAction!);
+        state = step.state;
+      }
+      // The player not on move resigns
+      actions.push({ type: ActionType.RESIGN, playerId: 1 - state.activePlayerIndex });
+      assert.deepEqual(parseActions(formatActions(actions), start), actions, rules.name);
+    }
+  });
+});
+
+describe('Position notation', () => {
+  for (const rules of RULE_SETS) {
+    it(`round-trips every ${rules.name} position along random games`, () => {
+      for (const seed of [4, 5]) {
+        const { steps, final } = selfPlay(seed, rules);
+        for (const state of [...steps.map(step => step.state), final]) {
+          const text = formatPosition(state);
+          assert.equal(formatPosition(parsePosition(text, rules)), text);
+        }
+      }
+    });
+  }
+
+  it('round-trips redacted player views without inventing colors', () => {
+    for (const rules of RULE_SETS) {
+      const { steps } = selfPlay(6, rules, 40);
+      for (const { state } of steps) {
+        const view = getPlayerView(state, state.activePlayerIndex);
+        const text = formatPosition(view);
+        const parsed = parsePosition(text, rules);
+        assert.equal(formatPosition(parsed), text);
+        // The view's face-down pieces are unknown, everything else is as in the real position
+        assert.equal(text, formatPosition(state).replace(/~[a-z]/gi, '~?'));
+        for (const stack of parsed.board.flat()) {
+          for (const piece of stack?.pieces ?? []) assert.equal(isRedactedPiece(piece), !piece.faceUp);
+        }
+      }
+    }
+    assert.throws(() => parsePosition('?7/8/8/8 - - RB 0 - 0'), /must be face down/);
+  });
+
+  it('reads squares past h4 on larger boards', () => {
+    const text = '26/26/26/26/26/26/26/26/26/26/26/25(RK) - - RB 0 z12 0';
+    const state = parsePosition(text, WIDE_RULES);
+    assert.equal(state.board[11][25]?.pieces.length, 2);
+    assert.deepEqual(state.pendingChainCapture, { row: 11, col: 25 });
+    assert.equal(formatPosition(state), text);
+  });
+});
@@ -0,0 +1,354 @@
+
+import {
+  GameState,
+  Board,
+  PieceInstance,
+  PieceType,
+  Color,
+  PlayerAction,
+  ActionType,
+  CaptureResolution,
+  RuleSet,
+  STANDARD_RULES,
+  HIDDEN_PIECE_TYPE,
+} from './types';
+import { applyAction } from './gameEngine';
+import { positionKey } from './packedPosition';
+import { describeViolation } from './violations';
+import { formatSquare, parseSquare } from './squares';
+
+/*
+ * --- Text Notation ---
+ *
+ * Squares: column letter + 1-based row number (a1 = row 0, col 0; standard board a1..h4).
+ * Piece letters (WXF style): K General, A Advisor, E Elephant, R Chariot, H Horse, C Cannon, P Soldier.
+ *
+ * Actions:
+ *   FLIP      *c3
+ *   MOVE      b2-b4      (no captureResolution, engine default TO_HAND)
+ *             b2-b4/h    (TO_HAND)
+ *             b2-b4/s    (STACK_IF_POSSIBLE)
+ *   DEPLOY    P@c2       (1 soldier)   3P@c2 (3 soldiers)
+ *   RETRIEVE  ^c2{id1,id2}
+ *   PASS      --
+ *   OFFER_DRAW =?
+ *   ACCEPT_DRAW =
+ *   RESIGN    #0 / #1    (carries the resigning player, who need not be on move)
+ *   TIMEOUT   #t
+ *
+ * Positions (space separated fields, FEN-like):
+ *   <board> <hand0> <hand1> <colors> <active> <chain> <turn>
+ *   board:  rows 1..N joined by '/' (dimensions come from the rule set). Per cell: a run of
+ *           digits for empty cells, a single piece, or a multi-piece stack in parentheses
+ *           listed bottom -> top.
+ *           A piece is its letter, UPPERCASE = RED, lowercase = BLACK, '~' prefix = face down.
+ *           '~?' is a face-down piece of unknown identity (as in a redacted player view).
+ *   hands:  pieces in hand (same piece syntax), '-' when empty.
+ *   colors: player 0 then player 1, 'R' / 'B', or '--' while colorsAssigned is false.
+ *   active: 0 or 1.   chain: pendingChainCapture square or '-'.   turn: turnCount.
+ *
+ * Piece IDs are not part of the position; parsePosition assigns deterministic IDs by reading order.
+ * Neither is draw bookkeeping: an open draw offer, the no-progress count and repetition counts are
+ * lost, and parsePosition starts them fresh.
+ */
+
+const TYPE_TO_LETTER: Record<PieceType, string> = {
+  [PieceType.GENERAL]: 'K',
+  [PieceType.ADVISOR]: 'A',
+  [PieceType.ELEPHANT]: 'E',
+  [PieceType.CHARIOT]: 'R',
+  [PieceType.HORSE]: 'H',
+  [PieceType.CANNON]: 'C',
+  [PieceType.SOLDIER]: 'P',
+};
+
+const LETTER_TO_TYPE: Record<string, PieceType> = Object.fromEntries(
+  Object.entries(TYPE_TO_LETTER).map(([type, letter]) => [letter, type as PieceType])
+);
+
+const SQUARE = '[a-z]\\d+';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// --- Actions ---
+
+export const formatAction = (action: PlayerAction): string => {
+  switch (action.type) {
+    case ActionType.FLIP:
+      if (!action.flipLocation) throw new Error('FLIP without flipLocation');
+      return `*${formatSquare(action.flipLocation)}`;
+
+    case ActionType.MOVE: {
+      if (!action.from || !action.to) throw new Error('MOVE without from/to');
+      let suffix = '';
+      if (action.captureResolution === CaptureResolution.TO_HAND) suffix = '/h';
+      if (action.captureResolution === CaptureResolution.STACK_IF_POSSIBLE) suffix = '/s';
+      return `${formatSquare(action.from)}-${formatSquare(action.to)}${suffix}`;
+    }
+
+    case ActionType.DEPLOY: {
+      if (!action.deployType || !action.deployTo || !action.deployCount) throw new Error('DEPLOY without type/count/target');
+      const count = action.deployCount === 1 ? '' : String(action.deployCount);
+      return `${count}${TYPE_TO_LETTER[action.deployType]}@${formatSquare(action.deployTo)}`;
+    }
+
+    case ActionType.RETRIEVE: {
+      if (!action.retrieveFrom || !action.retrievePieceIds) throw new Error('RETRIEVE without source/pieces');
+      for (const id of action.retrievePieceIds) {
+        if (!ID_PATTERN.test(id)) throw new Error(`Piece id "${id}" cannot be written in notation`);
+      }
+      return `^${formatSquare(action.retrieveFrom)}{${action.retrievePieceIds.join(',')}}`;
+    }
+
+    case ActionType.PASS:
+      return '--';
+
+    case ActionType.OFFER_DRAW:
+      return '=?';
+
+    case ActionType.ACCEPT_DRAW:
+      return '=';
+
+    case ActionType.RESIGN:
+      return `#${action.playerId}`;
+
+    case ActionType.TIMEOUT:
+      return '#t';
+  }
+};
+
+/**
+ * Parses a single action. Notation does not carry the player (except for RESIGN), so the caller supplies it.
+ * Round trip: parseAction(formatAction(a), a.playerId) is structurally equal to a.
+ */
+export const parseAction = (text: string, playerId: number): PlayerAction => {
+  const t = text.trim();
+  let match: RegExpExecArray | null;
+
+  if (t === '--') return { type: ActionType.PASS, playerId };
+  if (t === '=?') return { type: ActionType.OFFER_DRAW, playerId };
+  if (t === '=') return { type: ActionType.ACCEPT_DRAW, playerId };
+  if (t === '#t') return { type: ActionType.TIMEOUT, playerId };
+  if (t === '#0' || t === '#1') return { type: ActionType.RESIGN, playerId: parseInt(t[1], 10) };
+
+  if ((match = new RegExp(`^\\*(${SQUARE})$`).exec(t))) {
+    return { type: ActionType.FLIP, playerId, flipLocation: parseSquare(match[1]) };
+  }
+
+  if ((match = new RegExp(`^(${SQUARE})-(${SQUARE})(?:/([hs]))?$`).exec(t))) {
+    const action: PlayerAction = { type: ActionType.MOVE, playerId, from: parseSquare(match[1]), to: parseSquare(match[2]) };
+    if (match[3] === 'h') action.captureResolution = CaptureResolution.TO_HAND;
+    if (match[3] === 's') action.captureResolution = CaptureResolution.STACK_IF_POSSIBLE;
+    return action;
+  }
+
+  if ((match = new RegExp(`^(\\d*)([KAERHCP])@(${SQUARE})$`).exec(t))) {
+    const deployCount = match[1] === '' ? 1 : parseInt(match[1], 10);
+    if (deployCount < 1) throw new Error(`Invalid deploy count in "${text}"`);
+    return {
+      type: ActionType.DEPLOY,
+      playerId,
+      deployType: LETTER_TO_TYPE[match[2]],
+      deployCount,
+      deployTo: parseSquare(match[3]),
+    };
+  }
+
+  if ((match = new RegExp(`^\\^(${SQUARE})\\{([^}]*)\\}$`).exec(t))) {
+    const ids = match[2] === '' ? [] : match[2].split(',');
+    for (const id of ids) {
+      if (!ID_PATTERN.test(id)) throw new Error(`Invalid piece id "${id}" in "${text}"`);
+    }
+    return { type: ActionType.RETRIEVE, playerId, retrieveFrom: parseSquare(match[1]), retrievePieceIds: ids };
+  }
+
+  throw new Error(`Unrecognized action "${text}"`);
+};
+
+export const formatActions = (actions: PlayerAction[]): string => actions.map(formatAction).join(' ');
+
+/**
+ * Parses a space separated action list played from `initialState`.
+ * Player IDs are recovered by replaying through applyAction; throws on the first illegal action.
+ */
+export const parseActions = (text: string, initialState: GameState): PlayerAction[] => {
+  const tokens = text.trim().split(/\s+/).filter(tok => tok.length > 0);
+  const actions: PlayerAction[] = [];
+  let state = initialState;
+
+  tokens.forEach((token, i) => {
+    const action = parseAction(token, state.activePlayerIndex);
+    const next = applyAction(state, action);
+    if (next.error) throw new Error(`Illegal action #${i + 1} "${token}": ${describeViolation(next.error)}`);
+    actions.push(action);
+    state = next;
+  });
+  return actions;
+};
+
+// --- Positions ---
+
+const UNKNOWN_PIECE = '?';
+
+const formatPiece = (p: PieceInstance): string => {
+  if (p.color === Color.UNKNOWN) {
+    if (p.faceUp) throw new Error('Face-up piece without a color');
+    return `~${UNKNOWN_PIECE}`;
+  }
+  const letter = TYPE_TO_LETTER[p.type];
+  return `${p.faceUp ? '' : '~'}${p.color === Color.BLACK ? letter.toLowerCase() : letter}`;
+};
+
+const formatBoard = (board: Board): string => {
+  return board.map(row => {
+    let out = '';
+    let empty = 0;
+    for (const stack of row) {
+      if (!stack || stack.pieces.length === 0) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        out += empty;
+        empty = 0;
+      }
+      const body = stack.pieces.map(formatPiece).join('');
+      out += stack.pieces.length === 1 ? body : `(${body})`;
+    }
+    if (empty > 0) out += empty;
+    return out;
+  }).join('/');
+};
+
+const formatPlayerColor = (color: Color): string => {
+  if (color === Color.RED) return 'R';
+  if (color === Color.BLACK) return 'B';
+  return '-';
+};
+
+export const formatPosition = (state: GameState): string => {
+  const hand = (i: number) => state.players[i].hand.pieces.map(formatPiece).join('') || '-';
+  const colors = state.colorsAssigned
+    ? `${formatPlayerColor(state.players[0].color)}${formatPlayerColor(state.players[1].color)}`
+    : '--';
+  const chain = state.pendingChainCapture ? formatSquare(state.pendingChainCapture) : '-';
+
+  return [formatBoard(state.board), hand(0), hand(1), colors, state.activePlayerIndex, chain, state.turnCount].join(' ');
+};
+
+/**
+ * Reads pieces from a cell/hand string. `nextId` supplies deterministic IDs.
+ */
+const parsePieces = (text: string, nextId: () => string): PieceInstance[] => {
+  const pieces: PieceInstance[] = [];
+  let faceUp = true;
+  for (const ch of text) {
+    if (ch === '~') {
+      if (!faceUp) throw new Error(`Double face-down marker in "${text}"`);
+      faceUp = false;
+      continue;
+    }
+    if (ch === UNKNOWN_PIECE) {
+      if (faceUp) throw new Error(`Unknown piece must be face down in "${text}"`);
+      pieces.push({ id: nextId(), type: HIDDEN_PIECE_TYPE, color: Color.UNKNOWN, faceUp });
+      faceUp = true;
+      continue;
+    }
+    const type = LETTER_TO_TYPE[ch.toUpperCase()];
+    if (!type) throw new Error(`Unknown piece letter "${ch}"`);
+    pieces.push({ id: nextId(), type, color: ch === ch.toUpperCase() ? Color.RED : Color.BLACK, faceUp });
+    faceUp = true;
+  }
+  if (!faceUp) throw new Error(`Dangling face-down marker in "${text}"`);
+  return pieces;
+};
+
+const parsePlayerColor = (ch: string): Color => {
+  if (ch === 'R') return Color.RED;
+  if (ch === 'B') return Color.BLACK;
+  throw new Error(`Invalid player color "${ch}"`);
+};
+
+/**
+ * Parses a position string into a playable GameState under `rules` (board size must match).
+ * Round trip: formatPosition(parsePosition(s)) === s for any string produced by formatPosition.
+ */
+export const parsePosition = (text: string, rules: RuleSet = STANDARD_RULES): GameState => {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== 7) throw new Error(`Position needs 7 fields, got ${fields.length}`);
+  const [boardText, hand0Text, hand1Text, colorsText, activeText, chainText, turnText] = fields;
+
+  let idCounter = 0;
+  const nextId = () => `p${idCounter++}`;
+
+  // Board
+  const rows = boardText.split('/');
+  if (rows.length !== rules.rows) throw new Error(`Board needs ${rules.rows} rows, got ${rows.length}`);
+  const board: Board = rows.map((rowText, r) => {
+    const row: Board[number] = [];
+    let i = 0;
+    while (i < rowText.length) {
+      const ch = rowText[i];
+      if (/\d/.test(ch)) {
+        let j = i;
+        while (j < rowText.length && /\d/.test(rowText[j])) j++;
+        const empty = parseInt(rowText.slice(i, j), 10);
+        if (empty < 1) throw new Error(`Invalid empty run in row ${r + 1}`);
+        for (let k = 0; k < empty; k++) row.push(null);
+        i = j;
+      } else if (ch === '(') {
+        const close = rowText.indexOf(')', i);
+        if (close < 0) throw new Error(`Unclosed stack in row ${r + 1}`);
+        const pieces = parsePieces(rowText.slice(i + 1, close), nextId);
+        if (pieces.length < 2) throw new Error(`Parenthesized stack must hold 2+ pieces in row ${r + 1}`);
+        row.push({ pieces });
+        i = close + 1;
+      } else {
+        const len = ch === '~' ? 2 : 1;
+        row.push({ pieces: parsePieces(rowText.slice(i, i + len), nextId) });
+        i += len;
+      }
+    }
+    if (row.length !== rules.cols) throw new Error(`Row ${r + 1} has ${row.length} cells, expected ${rules.cols}`);
+    return row;
+  });
+
+  // Hands
+  const hand = (t: string) => ({ pieces: t === '-' ? [] : parsePieces(t, nextId) });
+
+  // Colors
+  let colors: [Color, Color] = [Color.UNKNOWN, Color.UNKNOWN];
+  const colorsAssigned = colorsText !== '--';
+  if (colorsAssigned) {
+    if (colorsText.length !== 2) throw new Error(`Invalid colors field "${colorsText}"`);
+    colors = [parsePlayerColor(colorsText[0]), parsePlayerColor(colorsText[1])];
+    if (colors[0] === colors[1]) throw new Error('Players cannot share a color');
+  }
+
+  if (activeText !== '0' && activeText !== '1') throw new Error(`Invalid active player "${activeText}"`);
+  if (!/^\d+$/.test(turnText)) throw new Error(`Invalid turn count "${turnText}"`);
+
+  const state: GameState = {
+    board,
+    players: [
+      { color: colors[0], hand: hand(hand0Text) },
+      { color: colors[1], hand: hand(hand1Text) },
+    ],
+    activePlayerIndex: parseInt(activeText, 10),
+    colorsAssigned,
+    turnCount: parseInt(turnText, 10),
+    isGameOver: false,
+    winner: null,
+    result: null,
+    lastAction: null,
+    error: null,
+    pendingChainCapture: chainText === '-' ? null : parseSquare(chainText),
+    seed: 0,
+    rules,
+    drawOfferBy: null,
+    noProgressPlies: 0,
+    positionCounts: {},
+  };
+  state.positionCounts[positionKey(state)] = 1;
+  return state;
+};
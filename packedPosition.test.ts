@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selfPlayStates } from './fuzz';
+import { formatPosition, parsePosition } from './notation';
+import { getPlayerView } from './playerView';
+import {
+  PackedPosition, addToHand, clonePacked, computeHash, encodePiece, formatHash, packPosition, popPiece, positionKey,
+  pushPiece, setActive, setChain, topCode, unpackPosition,
+} from './packedPosition';
+import { Color, GameState, PieceType, RULE_PRESETS } from './types';
+
+// Hands are multisets: packing keeps their pieces, not their order
+const withSortedHands = (state: GameState): string => formatPosition({
+  ...state,
+  players: state.players.map(player => ({
+    ...player,
+    hand: { pieces: [...player.hand.pieces].sort((a, b) => encodePiece(a) - encodePiece(b)) },
+  })) as GameState['players'],
+});
+
+const assertHashCurrent = (p: PackedPosition) => {
+  const { hi, lo } = computeHash(p);
+  assert.deepEqual([p.hashHi, p.hashLo], [hi, lo]);
+};
+
+describe('Packing', () => {
+  it('round-trips positions under every rule preset', () => {
+    for (const rules of Object.values(RULE_PRESETS)) {
+      for (const state of selfPlayStates(3, rules)) {
+        assert.equal(withSortedHands(unpackPosition(packPosition(state), rules)), withSortedHands(state));
+      }
+    }
+  });
+
+  it('stores stacks bottom to top', () => {
+    const p = packPosition(parsePosition('(KR)7/8/8/7p - - RB 0 - 0'));
+    assert.equal(p.heights[0], 2);
+    assert.equal(topCode(p, 0), encodePiece({ id: '', type: PieceType.CHARIOT, color: Color.RED, faceUp: true }));
+  });
+});
+
+describe('Zobrist hashing', () => {
+  it('is the position key', () => {
+    for (const state of selfPlayStates(5)) assert.equal(positionKey(state), formatHash(packPosition(state)));
+    // Stacks taller than the rules allow get deeper cells, and a chaining square and hands are keyed too
+    const edited = parsePosition('(PPPPPPPPPP)7/8/8/8 RRc p RB 1 a1 0');
+    assert.equal(positionKey(edited), formatHash(packPosition(edited)));
+  });
+
+  it('ignores the identity of face-down pieces', () => {
+    for (const state of selfPlayStates(7, RULE_PRESETS.STANDARD, 40)) {
+      assert.equal(positionKey(getPlayerView(state, 0)), positionKey(state));
+    }
+  });
+
+  it('tells apart the side to move, the chaining square and hands', () => {
+    const base = packPosition(parsePosition('R1r1r3/8/8/8 P - RB 0 - 0'));
+    const other = [
+      packPosition(parsePosition('R1r1r3/8/8/8 P - RB 1 - 0')),
+      packPosition(parsePosition('R1r1r3/8/8/8 P - RB 0 a1 0')),
+      packPosition(parsePosition('R1r1r3/8/8/8 - P RB 0 - 0')),
+      packPosition(parsePosition('R1r1r3/8/8/8 PP - RB 0 - 0')),
+    ];
+    for (const p of other) assert.notEqual(formatHash(p), formatHash(base));
+  });
+
+  it('stays current through make/unmake', () => {
+    const p = packPosition(parsePosition('(RR)6p/8/8/8 C - RB 0 - 0'));
+    const start = formatHash(p);
+    const copy = clonePacked(p);
+
+    // Capture h1 to hand, chain on h1, then undo it all
+    const captured = popPiece(p, 7);
+    const converted = encodePiece({ id: '', type: PieceType.SOLDIER, color: Color.RED, faceUp: true });
+    addToHand(p, 0, converted, 1);
+    pushPiece(p, 7, popPiece(p, 0));
+    pushPiece(p, 7, popPiece(p, 0));
+    setChain(p, 7);
+    setActive(p, 1);
+    assertHashCurrent(p);
+    assert.notEqual(formatHash(p), start);
+
+    setActive(p, 0);
+    setChain(p, -1);
+    pushPiece(p, 0, popPiece(p, 7));
+    pushPiece(p, 0, popPiece(p, 7));
+    addToHand(p, 0, converted, -1);
+    pushPiece(p, 7, captured);
+    assertHashCurrent(p);
+    assert.equal(formatHash(p), start);
+    assert.equal(formatPosition(unpackPosition(p)), formatPosition(unpackPosition(copy)));
+  });
+});
@@ -0,0 +1,351 @@
+
+import { GameState, PieceInstance, PieceType, Color, RuleSet, Board, HIDDEN_PIECE_TYPE, STANDARD_RULES } from './types';
+import { createRng } from './rng';
+
+// --- Packed Positions ---
+//
+// Typed-array form of a position for search code. Every cell has a fixed number of slots holding
+// one byte per piece (bottom -> top), hands are counts per piece code. Piece IDs, draw bookkeeping
+// and the game result are not part of it.
+//
+// A 64-bit Zobrist hash (two 32-bit halves) is kept up to date by the mutators below, so search
+// can make and unmake steps and use the hash for transposition tables and repetition checks.
+// Like positionKey, the hash only sees that a piece is face down, never its identity.
+
+// Piece code: bits 0-3 identity (1 + 2 * type index + 1 if black; 0 = unknown), bit 4 face down
+export const FACE_DOWN = 0x10;
+export const PIECE_CODES = 0x20;
+const IDENTITY = 0x0F;
+const TYPES = Object.values(PieceType);
+
+const COLOR_CODES: Record<Color, number> = { [Color.UNKNOWN]: 0, [Color.RED]: 1, [Color.BLACK]: 2 };
+const CODE_COLORS = [Color.UNKNOWN, Color.RED, Color.BLACK];
+
+export const encodePiece = (piece: PieceInstance): number => {
+  const identity = piece.color === Color.UNKNOWN ? 0 : 1 + 2 * TYPES.indexOf(piece.type) + (piece.color === Color.BLACK ? 1 : 0);
+  return identity | (piece.faceUp ? 0 : FACE_DOWN);
+};
+
+export const decodePiece = (code: number, id: string): PieceInstance => {
+  const identity = code & IDENTITY;
+  const faceUp = (code & FACE_DOWN) === 0;
+  if (identity === 0) return { id, type: HIDDEN_PIECE_TYPE, color: Color.UNKNOWN, faceUp };
+  return { id, type: TYPES[(identity - 1) >> 1], color: (identity - 1) & 1 ? Color.BLACK : Color.RED, faceUp };
+};
+
+export interface PackedPosition {
+  rows: number;
+  cols: number;
+  depth: number;       // Slots per cell: the tallest stack the rules allow
+  heights: Uint8Array; // Stack size per cell (cell = row * cols + col)
+  pieces: Uint8Array;  // Piece codes at cell * depth + level, level 0 = bottom
+  hands: Uint8Array;   // Pieces in hand at player * PIECE_CODES + code
+  colors: Uint8Array;  // Player colors: 0 unknown, 1 red, 2 black
+  active: number;
+  chain: number;       // Cell of the pending chain capture, -1 if none
+  turnCount: number;
+  hashHi: number;
+  hashLo: number;
+}
+
+// --- Zobrist Keys ---
+
+interface ZobristKeys {
+  maxHand: number;
+  pieces: Uint32Array; // (cell * depth + level) * PIECE_CODES + code
+  hands: Uint32Array;  // (player * PIECE_CODES + code) * (maxHand + 1) + count
+  chain: Uint32Array;  // cell
+  colors: Uint32Array; // player 0's color code (player 1 always has the other one)
+  side: Uint32Array;   // player 1 to move
+}
+
+// Key tables per board layout, generated from a fixed seed so hashes are stable across runs
+const keyTables = new Map<string, ZobristKeys>();
+let lastLayout = { rows: 0, cols: 0, depth: 0, keys: null as ZobristKeys | null };
+
+const getKeys = (rows: number, cols: number, depth: number): ZobristKeys => {
+  // Mutators and positionKey ask for the same layout over and over: skip building the map key
+  if (lastLayout.keys && lastLayout.rows === rows && lastLayout.cols === cols && lastLayout.depth === depth) return lastLayout.keys;
+  const layout = `${rows}x${cols}x${depth}`;
+  let keys = keyTables.get(layout);
+  if (!keys) {
+    const rng = createRng(0x5A0B1257);
+    // Each key is a hi/lo pair of 32-bit words
+    const table = (count: number) => Uint32Array.from({ length: count * 2 }, () => (rng() * 0x100000000) >>> 0);
+    const cells = rows * cols;
+    const maxHand = cells * depth;
+    keys = {
+      maxHand,
+      pieces: table(cells * depth * PIECE_CODES),
+      hands: table(2 * PIECE_CODES * (maxHand + 1)),
+      chain: table(cells),
+      colors: table(CODE_COLORS.length),
+      side: table(1),
+    };
+    keyTables.set(layout, keys);
+  }
+  lastLayout = { rows, cols, depth, keys };
+  return keys;
+};
+
+const packedKeys = (p: PackedPosition): ZobristKeys => getKeys(p.rows, p.cols, p.depth);
+
+const toggle = (p: PackedPosition, table: Uint32Array, index: number): void => {
+  p.hashHi = (p.hashHi ^ table[index * 2]) >>> 0;
+  p.hashLo = (p.hashLo ^ table[index * 2 + 1]) >>> 0;
+};
+
+// Face-down pieces on the board hash alike whatever they are (hands only hold revealed pieces)
+const hashCode = (code: number): number => (code & FACE_DOWN ? FACE_DOWN : code);
+
+/**
+ * Recomputes the hash from scratch (the mutators keep it current; this is for packing and checks).
+ */
+export const computeHash = (p: PackedPosition): { hi: number; lo: number } => {
+  const keys = packedKeys(p);
+  const scratch = { ...p, hashHi: 0, hashLo: 0 };
+  for (let cell = 0; cell < p.rows * p.cols; cell++) {
+    for (let level = 0; level < p.heights[cell]; level++) {
+      toggle(scratch, keys.pieces, (cell * p.depth + level) * PIECE_CODES + hashCode(p.pieces[cell * p.depth + level]));
+    }
+  }
+  for (let player = 0; player < 2; player++) {
+    for (let code = 0; code < PIECE_CODES; code++) {
+      const count = p.hands[player * PIECE_CODES + code];
+      if (count > 0) toggle(scratch, keys.hands, (player * PIECE_CODES + code) * (keys.maxHand + 1) + count);
+    }
+  }
+  if (p.chain >= 0) toggle(scratch, keys.chain, p.chain);
+  toggle(scratch, keys.colors, p.colors[0]);
+  if (p.active === 1) toggle(scratch, keys.side, 0);
+  return { hi: scratch.hashHi, lo: scratch.hashLo };
+};
+
+const hex = (hi: number, lo: number): string => hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0');
+
+// 16 hex digits, the format of positionKey
+export const formatHash = (p: PackedPosition): string => hex(p.hashHi, p.hashLo);
+
+// --- Conversion ---
+
+const maxDepth = (rules: RuleSet): number => {
+  let depth = 0;
+  for (const type in rules.stackLimits) depth = Math.max(depth, rules.stackLimits[type as PieceType]);
+  return depth;
+};
+
+// Slots per cell: stacks from an edited or hand-written position may be taller than the rules allow
+const boardDepth = (state: GameState): number => {
+  let depth = maxDepth(state.rules);
+  for (const row of state.board) for (const stack of row) if (stack) depth = Math.max(depth, stack.pieces.length);
+  return depth;
+};
+
+export const packPosition = (state: GameState): PackedPosition => {
+  const { rows, cols } = state.rules;
+  const depth = boardDepth(state);
+  const p: PackedPosition = {
+    rows,
+    cols,
+    depth,
+    heights: new Uint8Array(rows * cols),
+    pieces: new Uint8Array(rows * cols * depth),
+    hands: new Uint8Array(2 * PIECE_CODES),
+    colors: Uint8Array.from(state.players.map(player => COLOR_CODES[player.color])),
+    active: state.activePlayerIndex,
+    chain: state.pendingChainCapture ? state.pendingChainCapture.row * cols + state.pendingChainCapture.col : -1,
+    turnCount: state.turnCount,
+    hashHi: 0,
+    hashLo: 0,
+  };
+
+  state.board.forEach((row, r) => row.forEach((stack, c) => {
+    const cell = r * cols + c;
+    stack?.pieces.forEach((piece, level) => { p.pieces[cell * depth + level] = encodePiece(piece); });
+    p.heights[cell] = stack?.pieces.length ?? 0;
+  }));
+  state.players.forEach((player, i) => {
+    for (const piece of player.hand.pieces) p.hands[i * PIECE_CODES + encodePiece(piece)]++;
+  });
+
+  const { hi, lo } = computeHash(p);
+  p.hashHi = hi;
+  p.hashLo = lo;
+  return p;
+};
+
+// --- Position Identity (Draw Rules) ---
+
+const handCounts = new Uint8Array(PIECE_CODES);
+
+/**
+ * Zobrist hash of everything that decides what can happen next: stacks, hands, side to move,
+ * colors and the chaining square. Face-down pieces are keyed only as "hidden", so keys never
+ * depend on secret information and a redacted player view produces the same key.
+ *
+ * Equal to formatHash(packPosition(state)), but hashed straight from the state: applyAction
+ * asks for it after every action, so it builds no packed position.
+ */
+export const positionKey = (state: GameState): string => {
+  const { rows, cols } = state.rules;
+  const depth = boardDepth(state);
+  const keys = getKeys(rows, cols, depth);
+  let hi = 0;
+  let lo = 0;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const pieces = state.board[r][c]?.pieces;
+      if (!pieces) continue;
+      for (let level = 0; level < pieces.length; level++) {
+        const index = ((r * cols + c) * depth + level) * PIECE_CODES + hashCode(encodePiece(pieces[level]));
+        hi ^= keys.pieces[index * 2];
+        lo ^= keys.pieces[index * 2 + 1];
+      }
+    }
+  }
+  for (let player = 0; player < 2; player++) {
+    for (const piece of state.players[player].hand.pieces) handCounts[encodePiece(piece)]++;
+    for (let code = 0; code < PIECE_CODES; code++) {
+      const count = handCounts[code];
+      if (count === 0) continue;
+      const index = (player * PIECE_CODES + code) * (keys.maxHand + 1) + count;
+      hi ^= keys.hands[index * 2];
+      lo ^= keys.hands[index * 2 + 1];
+      handCounts[code] = 0;
+    }
+  }
+  const chain = state.pendingChainCapture;
+  if (chain) {
+    hi ^= keys.chain[(chain.row * cols + chain.col) * 2];
+    lo ^= keys.chain[(chain.row * cols + chain.col) * 2 + 1];
+  }
+  const color = COLOR_CODES[state.players[0].color];
+  hi ^= keys.colors[color * 2];
+  lo ^= keys.colors[color * 2 + 1];
+  if (state.activePlayerIndex === 1) {
+    hi ^= keys.side[0];
+    lo ^= keys.side[1];
+  }
+  return hex(hi >>> 0, lo >>> 0);
+};
+
+// --- Unpacking ---
+
+/**
+ * Builds a playable GameState. Piece IDs are assigned in reading order (board, then hands)
+ * like parsePosition, hands come out grouped by piece code, and draw bookkeeping starts fresh.
+ */
+export const unpackPosition = (p: PackedPosition, rules: RuleSet = STANDARD_RULES): GameState => {
+  let idCounter = 0;
+  const nextId = () => `p${idCounter++}`;
+
+  const board: Board = [];
+  for (let r = 0; r < p.rows; r++) {
+    const row: Board[number] = [];
+    for (let c = 0; c < p.cols; c++) {
+      const cell = r * p.cols + c;
+      const pieces: PieceInstance[] = [];
+      for (let level = 0; level < p.heights[cell]; level++) pieces.push(decodePiece(p.pieces[cell * p.depth + level], nextId()));
+      row.push(pieces.length > 0 ? { pieces } : null);
+    }
+    board.push(row);
+  }
+
+  const hand = (player: number) => {
+    const pieces: PieceInstance[] = [];
+    for (let code = 0; code < PIECE_CODES; code++) {
+      for (let i = 0; i < p.hands[player * PIECE_CODES + code]; i++) pieces.push(decodePiece(code, nextId()));
+    }
+    return { pieces };
+  };
+
+  const state: GameState = {
+    board,
+    players: [
+      { color: CODE_COLORS[p.colors[0]], hand: hand(0) },
+      { color: CODE_COLORS[p.colors[1]], hand: hand(1) },
+    ],
+    activePlayerIndex: p.active,
+    colorsAssigned: p.colors[0] !== 0,
+    turnCount: p.turnCount,
+    isGameOver: false,
+    winner: null,
+    result: null,
+    lastAction: null,
+    error: null,
+    pendingChainCapture: p.chain >= 0 ? { row: Math.floor(p.chain / p.cols), col: p.chain % p.cols } : null,
+    seed: 0,
+    rules,
+    drawOfferBy: null,
+    noProgressPlies: 0,
+    positionCounts: {},
+  };
+  state.positionCounts[positionKey(state)] = 1;
+  return state;
+};
+
+export const clonePacked = (p: PackedPosition): PackedPosition => ({
+  ...p,
+  heights: p.heights.slice(),
+  pieces: p.pieces.slice(),
+  hands: p.hands.slice(),
+  colors: p.colors.slice(),
+});
+
+// --- Mutators (hash kept current) ---
+
+export const topCode = (p: PackedPosition, cell: number): number =>
+  p.heights[cell] > 0 ? p.pieces[cell * p.depth + p.heights[cell] - 1] : 0;
+
+export const pushPiece = (p: PackedPosition, cell: number, code: number): void => {
+  const level = p.heights[cell];
+  if (level >= p.depth) throw new Error(`Cell ${cell} is full`);
+  p.pieces[cell * p.depth + level] = code;
+  p.heights[cell] = level + 1;
+  toggle(p, packedKeys(p).pieces, (cell * p.depth + level) * PIECE_CODES + hashCode(code));
+};
+
+export const popPiece = (p: PackedPosition, cell: number): number => {
+  const level = p.heights[cell] - 1;
+  if (level < 0) throw new Error(`Cell ${cell} is empty`);
+  const code = p.pieces[cell * p.depth + level];
+  p.heights[cell] = level;
+  toggle(p, packedKeys(p).pieces, (cell * p.depth + level) * PIECE_CODES + hashCode(code));
+  return code;
+};
+
+/**
+ * Adds (or with a negative delta removes) pieces of one code to a player's hand.
+ */
+export const addToHand = (p: PackedPosition, player: number, code: number, delta: number): void => {
+  const keys = packedKeys(p);
+  const slot = player * PIECE_CODES + code;
+  const before = p.hands[slot];
+  const after = before + delta;
+  if (after < 0 || after > keys.maxHand) throw new Error(`Hand count ${after} out of range`);
+  const keyBase = slot * (keys.maxHand + 1);
+  if (before > 0) toggle(p, keys.hands, keyBase + before);
+  if (after > 0) toggle(p, keys.hands, keyBase + after);
+  p.hands[slot] = after;
+};
+
+export const setActive = (p: PackedPosition, player: number): void => {
+  if (player !== p.active) toggle(p, packedKeys(p).side, 0);
+  p.active = player;
+};
+
+export const setChain = (p: PackedPosition, cell: number): void => {
+  const keys = packedKeys(p);
+  if (p.chain >= 0) toggle(p, keys.chain, p.chain);
+  if (cell >= 0) toggle(p, keys.chain, cell);
+  p.chain = cell;
+};
+
+export const setColors = (p: PackedPosition, player0: Color, player1: Color): void => {
+  const keys = packedKeys(p);
+  toggle(p, keys.colors, p.colors[0]);
+  p.colors[0] = COLOR_CODES[player0];
+  p.colors[1] = COLOR_CODES[player1];
+  toggle(p, keys.colors, p.colors[0]);
+};
@@ -0,0 +1,64 @@
+
+import { GameState, PieceInstance, PieceType, Color, HIDDEN_PIECE_TYPE } from './types';
+
+/**
+ * Multiset entry of identities that are still face down somewhere on the board.
+ * This is public knowledge: it is the starting set minus every piece revealed by a flip.
+ */
+export interface HiddenPieceCount {
+  type: PieceType;
+  color: Color;
+  count: number;
+}
+
+/**
+ * What one player is allowed to know. Face-down pieces (including any buried inside stacks)
+ * have their type/color replaced by HIDDEN_PIECE_TYPE / Color.UNKNOWN and their IDs replaced,
+ * and the deal seed is withheld since it would reproduce the whole board.
+ *
+ * A view is still a GameState: getLegalActions and applyAction validation give the same
+ * answers on it as on the full state, because no rule reads the identity of a face-down piece.
+ * The outcome of a FLIP applied to a view is meaningless; only the authoritative state can resolve it.
+ * Hands and face-up pieces are public, so today both players' views hold the same information.
+ */
+export interface PlayerView extends GameState {
+  viewerIndex: number;
+  hiddenPool: HiddenPieceCount[];
+}
+
+export const isRedactedPiece = (piece: PieceInstance): boolean => !piece.faceUp && piece.color === Color.UNKNOWN;
+
+export const getPlayerView = (state: GameState, playerIndex: number): PlayerView => {
+  const view: GameState = JSON.parse(JSON.stringify(state));
+  const pool = new Map<string, HiddenPieceCount>();
+
+  const redact = (piece: PieceInstance, id: string) => {
+    if (piece.faceUp) return;
+    if (piece.color !== Color.UNKNOWN) {
+      const key = `${piece.color}:${piece.type}`;
+      const entry = pool.get(key) ?? { type: piece.type, color: piece.color, count: 0 };
+      entry.count++;
+      pool.set(key, entry);
+    }
+    piece.id = id;
+    piece.type = HIDDEN_PIECE_TYPE;
+    piece.color = Color.UNKNOWN;
+  };
+
+  view.board.forEach((row, r) => row.forEach((stack, c) => {
+    stack?.pieces.forEach((p, i) => redact(p, `hidden-${r}-${c}-${i}`));
+  }));
+  view.players.forEach((player, pi) => {
+    player.hand.pieces.forEach((p, i) => redact(p, `hidden-hand${pi}-${i}`));
+  });
+  view.seed = 0;
+
+  // Re-redacting a view keeps the pool it already carried
+  const inherited = (state as Partial<PlayerView>).hiddenPool;
+
+  return {
+    ...view,
+    viewerIndex: playerIndex,
+    hiddenPool: inherited && pool.size === 0 ? inherited : [...pool.values()],
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyAction, getLegalActions, initRandomGame } from './gameEngine';
+import { formatPosition, parsePosition } from './notation';
+import {
+  SetupProblemCode,
+  addHandPiece,
+  addPiece,
+  createEmptySetup,
+  createSetup,
+  removeHandPiece,
+  removePiece,
+  setActivePlayer,
+  setPlayerColors,
+  startFromSetup,
+  togglePieceFaceUp,
+  validateSetup,
+} from './positionEditor';
+import { ActionType, Color, PieceType } from './types';
+
+const codes = (setup: Parameters<typeof validateSetup>[0]) => validateSetup(setup).map(p => p.code);
+
+describe('Position editor', () => {
+  const a1 = { row: 0, col: 0 };
+  const h4 = { row: 3, col: 7 };
+
+  it('builds stacks, hands and sides without touching the previous setup', () => {
+    const empty = createEmptySetup();
+    let setup = addPiece(empty, a1, PieceType.CHARIOT, Color.RED, true);
+    setup = addPiece(setup, a1, PieceType.GENERAL, Color.RED, true);
+    setup = addPiece(setup, h4, PieceType.SOLDIER, Color.BLACK, false);
+    setup = addHandPiece(setup, 1, PieceType.HORSE, Color.BLACK);
+    setup = setActivePlayer(setPlayerColors(setup, Color.RED), 1);
+
+    assert.equal(formatPosition(setup), '(RK)7/8/8/7~p - h RB 1 - 0');
+    assert.equal(formatPosition(empty), '8/8/8/8 - - -- 0 - 0');
+    assert.equal(new Set(setup.board.flat().flatMap(s => s?.pieces.map(p => p.id) ?? [])).size, 3);
+
+    setup = togglePieceFaceUp(removePiece(setup, a1, 0), h4, 0);
+    setup = removeHandPiece(setPlayerColors(setup, null), 1, PieceType.HORSE);
+    assert.equal(formatPosition(setup), 'K7/8/8/7p - - -- 1 - 0');
+  });
+
+  it('reports piece counts, stack limits and stack contents', () => {
+    let setup = parsePosition('(KKK)(RP)~C~c4/8/8/8 - - RB 0 - 0');
+    for (let i = 0; i < 5; i++) setup = addHandPiece(setup, 0, PieceType.CHARIOT, Color.RED);
+    assert.deepEqual(validateSetup(setup), [
+      { code: SetupProblemCode.STACK_TOO_TALL, location: a1, baseType: PieceType.GENERAL, size: 3, limit: 2 },
+      { code: SetupProblemCode.STACK_TYPE_MIX, location: { row: 0, col: 1 }, baseType: PieceType.CHARIOT, pieceType: PieceType.SOLDIER },
+      { code: SetupProblemCode.TOO_MANY_PIECES, pieceType: PieceType.GENERAL, count: 3, limit: 2 },
+      { code: SetupProblemCode.TOO_MANY_PIECES, pieceType: PieceType.CHARIOT, count: 6, limit: 4 },
+    ]);
+    assert.deepEqual(codes(parsePosition('(R~R)7/8/8/8 - - RB 0 - 0')), [SetupProblemCode.HIDDEN_IN_STACK]);
+  });
+
+  it('holds each side to its own face-down pieces', () => {
+    // Three red chariots still face down: red only ever had two, though both sides have four
+    assert.deepEqual(validateSetup(parsePosition('~R~R~R5/8/8/7~r - - -- 0 - 0')), [
+      { code: SetupProblemCode.TOO_MANY_HIDDEN, color: Color.RED, pieceType: PieceType.CHARIOT, count: 3, limit: 2 },
+    ]);
+    // Face up, the third one may be a captured black chariot that changed color
+    assert.deepEqual(codes(parsePosition('RRR5/8/8/7~r - - RB 0 - 0')), []);
+  });
+
+  it('needs colors once anything is face up or in hand, and a move for the side to play', () => {
+    assert.deepEqual(codes(parsePosition('R7/8/8/8 - - -- 0 - 0')), [SetupProblemCode.COLORS_UNASSIGNED]);
+    assert.deepEqual(codes(parsePosition('~R7/8/8/8 A - -- 0 - 0')), [SetupProblemCode.COLORS_UNASSIGNED]);
+    assert.deepEqual(codes(parsePosition('~R~r6/8/8/8 - - -- 1 - 0')), []);
+    assert.deepEqual(validateSetup(parsePosition('r7/8/8/8 - - RB 0 - 0')), [{ code: SetupProblemCode.NO_LEGAL_ACTION, player: 0 }]);
+  });
+
+  it('starts a fresh game from a valid setup', () => {
+    const game = initRandomGame(7);
+    const played = applyAction(game, getLegalActions(game, 0).find(a => a.type === ActionType.FLIP)!);
+    const setup = createSetup(played);
+    const start = startFromSetup(setup);
+
+    assert.equal(formatPosition(start), formatPosition(setup));
+    assert.equal(start.lastAction, null);
+    assert.equal(start.turnCount, 0);
+    assert.deepEqual(Object.values(start.positionCounts), [1]);
+    assert.ok(getLegalActions(start, start.activePlayerIndex).length > 0);
+    assert.throws(() => startFromSetup(createEmptySetup()), /Invalid setup/);
+  });
+});
@@ -0,0 +1,215 @@
+
+import { Color, GameState, Location, PieceInstance, PieceType, RuleSet, STANDARD_RULES } from './types';
+import { getStackBaseType, hasLegalAction } from './gameEngine';
+import { formatPosition, parsePosition } from './notation';
+import { formatSquare } from './squares';
+import { Locale, DEFAULT_LOCALE, MessageKey, MessageParams, translate, pieceName } from './i18n';
+
+// --- Position Editor ---
+//
+// A setup is a GameState that is being edited: no game-over, chain, draw offer or history.
+// Every edit returns a new setup (copy-on-write, like applyAction). startFromSetup turns a
+// valid setup into a playable game.
+
+export enum SetupProblemCode {
+  TOO_MANY_PIECES = 'TOO_MANY_PIECES',     // More of a type than both sides start with
+  TOO_MANY_HIDDEN = 'TOO_MANY_HIDDEN',     // More face-down pieces of a color and type than that side starts with
+  STACK_TOO_TALL = 'STACK_TOO_TALL',       // Over the base type's stack limit
+  STACK_TYPE_MIX = 'STACK_TYPE_MIX',       // A piece that cannot stack on the base type
+  HIDDEN_IN_STACK = 'HIDDEN_IN_STACK',     // Face-down pieces only ever stand alone
+  COLORS_UNASSIGNED = 'COLORS_UNASSIGNED', // Before the first flip nothing is face up and hands are empty
+  NO_LEGAL_ACTION = 'NO_LEGAL_ACTION',     // The player to move could not do anything
+}
+
+export type SetupProblem =
+  | { code: SetupProblemCode.TOO_MANY_PIECES; pieceType: PieceType; count: number; limit: number }
+  | { code: SetupProblemCode.TOO_MANY_HIDDEN; color: Color; pieceType: PieceType; count: number; limit: number }
+  | { code: SetupProblemCode.STACK_TOO_TALL; location: Location; baseType: PieceType; size: number; limit: number }
+  | { code: SetupProblemCode.STACK_TYPE_MIX; location: Location; baseType: PieceType; pieceType: PieceType }
+  | { code: SetupProblemCode.HIDDEN_IN_STACK; location: Location }
+  | { code: SetupProblemCode.COLORS_UNASSIGNED }
+  | { code: SetupProblemCode.NO_LEGAL_ACTION; player: number };
+
+/**
+ * The position of 'state' as a setup (the game's history and result are dropped).
+ */
+export const createSetup = (state: GameState): GameState => ({
+  ...state,
+  turnCount: 0,
+  isGameOver: false,
+  winner: null,
+  result: null,
+  lastAction: null,
+  error: null,
+  pendingChainCapture: null,
+  drawOfferBy: null,
+  noProgressPlies: 0,
+  positionCounts: {},
+});
+
+export const createEmptySetup = (rules: RuleSet = STANDARD_RULES): GameState =>
+  createSetup(parsePosition(`${Array(rules.rows).fill(rules.cols).join('/')} - - -- 0 - 0`, rules));
+
+// First free editor ID, so React keys and RETRIEVE picks stay unique while editing
+const nextPieceId = (setup: GameState): string => {
+  const used = new Set<string>();
+  setup.board.forEach(row => row.forEach(stack => stack?.pieces.forEach(p => used.add(p.id))));
+  setup.players.forEach(player => player.hand.pieces.forEach(p => used.add(p.id)));
+  let i = 0;
+  while (used.has(`e${i}`)) i++;
+  return `e${i}`;
+};
+
+const withSquare = (setup: GameState, loc: Location, pieces: PieceInstance[]): GameState => {
+  const board = setup.board.map(row => [...row]);
+  board[loc.row][loc.col] = pieces.length > 0 ? { pieces } : null;
+  return { ...setup, board };
+};
+
+const piecesAt = (setup: GameState, loc: Location): PieceInstance[] => setup.board[loc.row][loc.col]?.pieces ?? [];
+
+/**
+ * Puts a new piece on top of the stack at 'loc' (or on the empty square).
+ */
+export const addPiece = (setup: GameState, loc: Location, type: PieceType, color: Color, faceUp: boolean): GameState =>
+  withSquare(setup, loc, [...piecesAt(setup, loc), { id: nextPieceId(setup), type, color, faceUp }]);
+
+export const removePiece = (setup: GameState, loc: Location, index: number): GameState =>
+  withSquare(setup, loc, piecesAt(setup, loc).filter((_, i) => i !== index));
+
+export const clearSquare = (setup: GameState, loc: Location): GameState => withSquare(setup, loc, []);
+
+export const togglePieceFaceUp = (setup: GameState, loc: Location, index: number): GameState =>
+  withSquare(setup, loc, piecesAt(setup, loc).map((p, i) => (i === index ? { ...p, faceUp: !p.faceUp } : p)));
+
+// Hand pieces are always face up
+export const addHandPiece = (setup: GameState, player: number, type: PieceType, color: Color): GameState => {
+  const piece: PieceInstance = { id: nextPieceId(setup), type, color, faceUp: true };
+  const players = [...setup.players] as GameState['players'];
+  players[player] = { ...players[player], hand: { pieces: [...players[player].hand.pieces, piece] } };
+  return { ...setup, players };
+};
+
+// Takes out the most recently added piece of 'type'
+export const removeHandPiece = (setup: GameState, player: number, type: PieceType): GameState => {
+  const pieces = setup.players[player].hand.pieces;
+  const index = pieces.map(p => p.type).lastIndexOf(type);
+  if (index < 0) return setup;
+  const players = [...setup.players] as GameState['players'];
+  players[player] = { ...players[player], hand: { pieces: pieces.filter((_, i) => i !== index) } };
+  return { ...setup, players };
+};
+
+export const setActivePlayer = (setup: GameState, player: number): GameState => ({ ...setup, activePlayerIndex: player });
+
+/**
+ * Assigns player 0 'color' (player 1 the other one), or unassigns both with null.
+ */
+export const setPlayerColors = (setup: GameState, color: Color.RED | Color.BLACK | null): GameState => {
+  const other = color === Color.RED ? Color.BLACK : Color.RED;
+  return {
+    ...setup,
+    colorsAssigned: color !== null,
+    players: [
+      { ...setup.players[0], color: color ?? Color.UNKNOWN },
+      { ...setup.players[1], color: color === null ? Color.UNKNOWN : other },
+    ],
+  };
+};
+
+// --- Validation ---
+
+/**
+ * Everything that keeps a setup from being played under its rule set. Each side starts with its
+ * own piece set, but captures to hand change a piece's color (never its type): face-up pieces are
+ * counted across both colors, face-down ones, which were never captured, per side.
+ * Whether the player to move has a legal action is only asked of an otherwise valid setup.
+ */
+export const validateSetup = (setup: GameState): SetupProblem[] => {
+  const { rules } = setup;
+  const problems: SetupProblem[] = [];
+  const counts = new Map<PieceType, number>();
+  const hiddenCounts = new Map<string, number>(); // color:type
+  const count = (p: PieceInstance) => {
+    counts.set(p.type, (counts.get(p.type) ?? 0) + 1);
+    if (!p.faceUp) hiddenCounts.set(`${p.color}:${p.type}`, (hiddenCounts.get(`${p.color}:${p.type}`) ?? 0) + 1);
+  };
+  let anyFaceUp = false;
+
+  for (let r = 0; r < rules.rows; r++) {
+    for (let c = 0; c < rules.cols; c++) {
+      const stack = setup.board[r][c];
+      if (!stack || stack.pieces.length === 0) continue;
+      const location = { row: r, col: c };
+      stack.pieces.forEach(count);
+      if (stack.pieces.some(p => p.faceUp)) anyFaceUp = true;
+
+      if (stack.pieces.length > 1 && stack.pieces.some(p => !p.faceUp)) {
+        problems.push({ code: SetupProblemCode.HIDDEN_IN_STACK, location });
+      }
+      const baseType = getStackBaseType(stack.pieces);
+      const limit = rules.stackLimits[baseType];
+      if (stack.pieces.length > limit) {
+        problems.push({ code: SetupProblemCode.STACK_TOO_TALL, location, baseType, size: stack.pieces.length, limit });
+      }
+      // Same rule as canStackOn: a stack holds its base type and generals
+      const misfit = stack.pieces.find(p => p.type !== baseType && p.type !== PieceType.GENERAL);
+      if (misfit) problems.push({ code: SetupProblemCode.STACK_TYPE_MIX, location, baseType, pieceType: misfit.type });
+    }
+  }
+  setup.players.forEach(player => player.hand.pieces.forEach(count));
+
+  for (const type of Object.values(PieceType)) {
+    const limit = rules.initialPieceCounts[type] * 2;
+    const found = counts.get(type) ?? 0;
+    if (found > limit) problems.push({ code: SetupProblemCode.TOO_MANY_PIECES, pieceType: type, count: found, limit });
+  }
+  for (const color of [Color.RED, Color.BLACK]) {
+    for (const type of Object.values(PieceType)) {
+      const limit = rules.initialPieceCounts[type];
+      const found = hiddenCounts.get(`${color}:${type}`) ?? 0;
+      if (found > limit) problems.push({ code: SetupProblemCode.TOO_MANY_HIDDEN, color, pieceType: type, count: found, limit });
+    }
+  }
+
+  const anyInHand = setup.players.some(player => player.hand.pieces.length > 0);
+  if (!setup.colorsAssigned && (anyFaceUp || anyInHand)) problems.push({ code: SetupProblemCode.COLORS_UNASSIGNED });
+
+  if (problems.length === 0 && !hasLegalAction(setup, setup.activePlayerIndex)) {
+    problems.push({ code: SetupProblemCode.NO_LEGAL_ACTION, player: setup.activePlayerIndex });
+  }
+  return problems;
+};
+
+/**
+ * A fresh game from a valid setup: piece IDs and draw bookkeeping as parsePosition sets them up.
+ */
+export const startFromSetup = (setup: GameState): GameState => {
+  const problems = validateSetup(setup);
+  if (problems.length > 0) throw new Error(`Invalid setup: ${describeSetupProblem(problems[0])}`);
+  return parsePosition(formatPosition(createSetup(setup)), setup.rules);
+};
+
+export const describeSetupProblem = (problem: SetupProblem, locale: Locale = DEFAULT_LOCALE): string => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const piece = (type: PieceType) => pieceName(locale, type);
+
+  switch (problem.code) {
+    case SetupProblemCode.TOO_MANY_PIECES:
+      return t('setup.TOO_MANY_PIECES', { piece: piece(problem.pieceType), count: problem.count, limit: problem.limit });
+    case SetupProblemCode.TOO_MANY_HIDDEN:
+      return t('setup.TOO_MANY_HIDDEN', {
+        color: t(problem.color === Color.RED ? 'color.red' : 'color.black'), piece: piece(problem.pieceType), count: problem.count, limit: problem.limit,
+      });
+    case SetupProblemCode.STACK_TOO_TALL:
+      return t('setup.STACK_TOO_TALL', { square: formatSquare(problem.location), piece: piece(problem.baseType), size: problem.size, limit: problem.limit });
+    case SetupProblemCode.STACK_TYPE_MIX:
+      return t('setup.STACK_TYPE_MIX', { square: formatSquare(problem.location), piece: piece(problem.pieceType), base: piece(problem.baseType) });
+    case SetupProblemCode.HIDDEN_IN_STACK:
+      return t('setup.HIDDEN_IN_STACK', { square: formatSquare(problem.location) });
+    case SetupProblemCode.COLORS_UNASSIGNED:
+      return t('setup.COLORS_UNASSIGNED');
+    case SetupProblemCode.NO_LEGAL_ACTION:
+      return t('setup.NO_LEGAL_ACTION', { player: problem.player });
+  }
+};
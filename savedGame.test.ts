@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyAction, getLegalActions, initRandomGame } from './gameEngine';
+import { createGameRecord, getCurrentState, recordAction, undo } from './gameRecord';
+import { formatActions, formatPosition } from './notation';
+import { SavedGameFile, deserializeGame, serializeGame } from './savedGame';
+import { ClockState, TIME_CONTROL_PRESETS, createClock } from './clock';
+import { Color, GameState, PieceType, STANDARD_RULES } from './types';
+
+// A random game some plies in, with the last ply undone
+const playedRecord = (seed: number, plies: number) => {
+  let record = createGameRecord(initRandomGame(seed));
+  for (let i = 0; i < plies; i++) {
+    const state = getCurrentState(record);
+    const legal = getLegalActions(state, state.activePlayerIndex);
+    const action = legal[(seed + i * 7) % legal.length];
+    record = recordAction(record, action, applyAction(state, action));
+  }
+  return undo(record);
+};
+
+// A save with its start position rewritten
+const tamperedSave = (edit: (state: GameState) => unknown) => tamperedFile(file => {
+  file.initialState = edit(file.initialState) as GameState;
+});
+
+// A save with any of its fields rewritten
+const tamperedFile = (edit: (file: SavedGameFile) => void, clock: ClockState | null = null) => {
+  const file = JSON.parse(serializeGame(playedRecord(1, 6), clock));
+  edit(file);
+  return JSON.stringify(file);
+};
+
+describe('Saved games', () => {
+  it('round-trips the actions, the undo cursor and the position', () => {
+    const record = playedRecord(3, 12);
+    const { record: loaded, clock } = deserializeGame(serializeGame(record));
+    assert.equal(formatActions(loaded.actions), formatActions(record.actions));
+    assert.equal(loaded.ply, record.ply);
+    assert.equal(formatPosition(getCurrentState(loaded)), formatPosition(getCurrentState(record)));
+    assert.equal(clock, null);
+  });
+
+  it('rejects files that are not saves', () => {
+    assert.throws(() => deserializeGame('{'), /not valid JSON/);
+    assert.throws(() => deserializeGame('null'), /Not a stacking xiangqi save/);
+    assert.throws(() => deserializeGame(tamperedSave(() => 'board')), /missing game data/);
+  });
+
+  it('rejects malformed or impossible start positions before replaying', () => {
+    assert.throws(() => deserializeGame(tamperedSave(s => ({ ...s, board: s.board.slice(1) }))), /invalid board/);
+    assert.throws(() => deserializeGame(tamperedSave(s => {
+      s.board[0][0] = { pieces: [{ id: 'x', type: 'DRAGON' as PieceType, color: Color.RED, faceUp: true }] };
+      return s;
+    })), /invalid board/);
+    assert.throws(() => deserializeGame(tamperedSave(s => ({ ...s, players: [s.players[0]] }))), /invalid players/);
+    assert.throws(() => deserializeGame(tamperedSave(s => ({ ...s, activePlayerIndex: 2 }))), /invalid game state/);
+    assert.throws(() => deserializeGame(tamperedSave(s => {
+      s.board[0][1] = s.board[0][0];
+      return s;
+    })), /duplicate piece IDs/);
+    // Well-formed, but one more general than the game has
+    assert.throws(() => deserializeGame(tamperedSave(s => {
+      s.players[0].hand.pieces.push({ id: 'extra', type: PieceType.GENERAL, color: Color.RED, faceUp: true });
+      return s;
+    })), /impossible start position/);
+  });
+
+  it('rejects a malformed undo cursor, clock or rule set', () => {
+    for (const ply of ['abc', 1.5, -1, 7, null]) {
+      const text = tamperedFile(file => { file.ply = ply as number; });
+      if (ply === null) assert.equal(deserializeGame(text).record.ply, 6); // Missing: at the last action
+      else assert.throws(() => deserializeGame(text), /invalid ply/, String(ply));
+    }
+
+    const clock = createClock(TIME_CONTROL_PRESETS.FISCHER_5_3, null, 0);
+    assert.deepEqual(deserializeGame(tamperedFile(() => {}, clock)).clock?.remainingMs, clock.remainingMs);
+    assert.throws(() => deserializeGame(tamperedFile(file => { file.clock = { foo: 1 } as unknown as ClockState; })), /invalid clock/);
+    assert.throws(() => deserializeGame(tamperedFile(file => { file.clock!.remainingMs = [1, 'x' as unknown as number]; }, clock)), /invalid clock/);
+
+    const rules = (edit: Record<string, unknown>) => tamperedSave(s => ({ ...s, rules: { ...s.rules, ...edit } }));
+    assert.throws(() => deserializeGame(rules({ turnLimit: '5' })), /invalid rules/);
+    assert.throws(() => deserializeGame(rules({ repetitionLimit: '3' })), /invalid rules/);
+    assert.throws(() => deserializeGame(rules({ stackLimits: { ...STANDARD_RULES.stackLimits, CHARIOT: -1 } })), /invalid rules/);
+    assert.throws(() => deserializeGame(rules({ captureRule: 'ANY' })), /invalid rules/);
+  });
+
+  it('rejects illegal recorded actions', () => {
+    const file = JSON.parse(serializeGame(playedRecord(2, 4)));
+    file.actions[1] = file.actions[0];
+    assert.throws(() => deserializeGame(JSON.stringify(file)), /action #2 is illegal/);
+  });
+});
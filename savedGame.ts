@@ -0,0 +1,196 @@
+
+import { CaptureRule, Color, GameState, PieceType, PlayerAction, RuleSet, STANDARD_RULES } from './types';
+import { GameRecord, replayGameRecord } from './gameRecord';
+import { positionKey } from './packedPosition';
+import { createSetup, describeSetupProblem, validateSetup } from './positionEditor';
+import { ClockState, TimeControlType, pauseClock } from './clock';
+
+/**
+ * Versioned on-disk/localStorage format for a game.
+ * Only the initial state and the action list are stored; positions are rebuilt by replay,
+ * so a loaded file can never contain a position the engine would not have produced.
+ */
+export const SAVE_FORMAT = 'stacking-xiangqi-game';
+export const SAVE_FORMAT_VERSION = 1;
+
+export interface SavedGameFile {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  initialState: GameState;
+  actions: PlayerAction[];
+  ply: number; // Undo cursor at save time
+  clock?: ClockState | null; // Timed games only; saved paused
+}
+
+export interface LoadedGame {
+  record: GameRecord;
+  clock: ClockState | null; // Paused: resume it for the player to move
+}
+
+const AUTOSAVE_KEY = 'stacking-xiangqi.autosave';
+
+export const serializeGame = (record: GameRecord, clock: ClockState | null = null): string => {
+  const file: SavedGameFile = {
+    format: SAVE_FORMAT,
+    version: SAVE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    initialState: record.initialState,
+    actions: record.actions,
+    ply: record.ply,
+    clock: clock ? pauseClock(clock, Date.now()) : null,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// --- Start Position Checks ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPiece = (value: unknown): boolean =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.faceUp === 'boolean' &&
+  (Object.values(PieceType) as unknown[]).includes(value.type) &&
+  (value.color === Color.RED || value.color === Color.BLACK);
+
+const isPieceList = (value: unknown): value is unknown[] => Array.isArray(value) && value.every(isPiece);
+
+const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+
+const isTime = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+
+const isPair = (value: unknown, check: (v: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.length === 2 && value.every(check);
+
+const checkRules = (rules: RuleSet): void => {
+  const countsOk = (counts: unknown) => isRecord(counts) && Object.values(PieceType).every(type => isCount(counts[type]));
+  const ok = typeof rules.name === 'string' &&
+    Number.isInteger(rules.rows) && rules.rows >= 1 && Number.isInteger(rules.cols) && rules.cols >= 1 &&
+    countsOk(rules.stackLimits) && countsOk(rules.initialPieceCounts) &&
+    typeof rules.soldierCanChain === 'boolean' &&
+    isCount(rules.cannonScreens) &&
+    Object.values(CaptureRule).includes(rules.captureRule) &&
+    isCount(rules.repetitionLimit) && isCount(rules.noProgressLimit) && isCount(rules.turnLimit);
+  if (!ok) throw new Error('Save file has invalid rules');
+};
+
+/**
+ * Throws unless 'state' is shaped like a GameState for its rule set and its position could be
+ * set up in the position editor: replay only checks the actions, not where they start from.
+ */
+const checkStartState = (state: GameState): void => {
+  const { rules } = state;
+  checkRules(rules);
+  const boardOk = Array.isArray(state.board) && state.board.length === rules.rows && state.board.every(row =>
+    Array.isArray(row) && row.length === rules.cols &&
+    row.every(stack => stack === null || (isRecord(stack) && isPieceList(stack.pieces) && stack.pieces.length > 0))
+  );
+  if (!boardOk) throw new Error('Save file has an invalid board');
+
+  const playersOk = Array.isArray(state.players) && state.players.length === 2 && state.players.every(player =>
+    isRecord(player) && Object.values(Color).includes(player.color) && isRecord(player.hand) && isPieceList(player.hand.pieces)
+  );
+  if (!playersOk) throw new Error('Save file has invalid players');
+
+  const chain = state.pendingChainCapture;
+  if ((state.activePlayerIndex !== 0 && state.activePlayerIndex !== 1) ||
+      typeof state.colorsAssigned !== 'boolean' ||
+      !Number.isInteger(state.turnCount) || state.turnCount < 0 ||
+      state.isGameOver !== false ||
+      (chain !== null && !(isRecord(chain) && isRecord(state.board[chain.row]?.[chain.col]))) ||
+      typeof state.seed !== 'number') {
+    throw new Error('Save file has an invalid game state');
+  }
+
+  const ids = [...state.board.flat().flatMap(stack => stack?.pieces ?? []), ...state.players.flatMap(p => p.hand.pieces)].map(p => p.id);
+  if (new Set(ids).size !== ids.length) throw new Error('Save file has duplicate piece IDs');
+
+  const problems = validateSetup(createSetup(state));
+  if (problems.length > 0) throw new Error(`Save file has an impossible start position: ${describeSetupProblem(problems[0])}`);
+};
+
+// Throws unless 'clock' has every ClockState field, so a resumed clock never counts with NaN
+const checkClock = (clock: unknown): void => {
+  const control = isRecord(clock) ? clock.control : null;
+  const ok = isRecord(clock) && isRecord(control) &&
+    typeof control.name === 'string' && Object.values(TimeControlType).includes(control.type as TimeControlType) &&
+    isCount(control.mainMs) && isCount(control.incrementMs) && isCount(control.byoYomiMs) && isCount(control.byoYomiPeriods) &&
+    isPair(clock.remainingMs, isTime) && isPair(clock.periodsLeft, isCount) &&
+    (clock.running === null || clock.running === 0 || clock.running === 1) &&
+    (clock.runningSince === null || isTime(clock.runningSince));
+  if (!ok) throw new Error('Save file has an invalid clock');
+};
+
+// --- Loading ---
+
+/**
+ * Parses a saved game and replays it. Throws if the file is not a supported save, if its
+ * rules, undo cursor or clock are malformed, if its start position is malformed or impossible,
+ * or if any recorded action is rejected by the engine.
+ */
+export const deserializeGame = (text: string): LoadedGame => {
+  let data: Partial<SavedGameFile>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+
+  if (!data || data.format !== SAVE_FORMAT) throw new Error('Not a stacking xiangqi save file');
+  if (data.version !== SAVE_FORMAT_VERSION) throw new Error(`Unsupported save version ${data.version}`);
+  if (!isRecord(data.initialState) || !Array.isArray(data.actions) || !data.actions.every(isRecord)) throw new Error('Save file is missing game data');
+
+  // Fill in fields newer than the save. Saves from before rule sets existed were always
+  // played under the standard rules; older rule sets get the standard draw limits.
+  const initialState: GameState = {
+    result: null,
+    drawOfferBy: null,
+    noProgressPlies: 0,
+    positionCounts: {},
+    ...data.initialState,
+    rules: { ...STANDARD_RULES, ...data.initialState.rules },
+  };
+  checkStartState(initialState);
+  // Position keys are hashes that may change between versions, so the start position is re-keyed
+  initialState.positionCounts = { [positionKey(initialState)]: 1 };
+  const ply = data.ply ?? data.actions.length;
+  if (!Number.isInteger(ply) || ply < 0 || ply > data.actions.length) throw new Error(`Save file has an invalid ply ${ply}`);
+  const clock = data.clock ?? null;
+  if (clock !== null) checkClock(clock);
+
+  const record = replayGameRecord(initialState, data.actions, ply);
+  if (record.actions.length !== data.actions.length) {
+    throw new Error(`Save file action #${record.actions.length + 1} is illegal`);
+  }
+  return { record, clock };
+};
+
+// --- Browser helpers ---
+
+export const saveAutosave = (record: GameRecord, clock: ClockState | null = null): void => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeGame(record, clock));
+  } catch (e) {
+    console.warn('Autosave failed', e);
+  }
+};
+
+export const loadAutosave = (): LoadedGame | null => {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_KEY);
+    return text ? deserializeGame(text) : null;
+  } catch (e) {
+    console.warn('Discarding unreadable autosave', e);
+    return null;
+  }
+};
+
+export const downloadGame = (record: GameRecord, clock: ClockState | null = null): void => {
+  const blob = new Blob([serializeGame(record, clock)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `stacking-xiangqi-${record.initialState.seed}-ply${record.ply}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { handleClose, handleMessage } from './server';
+import { ClientMessage, ServerMessage } from './netProtocol';
+import { getLegalActions } from './gameEngine';
+import { ActionType, RuleViolationCode } from './types';
+
+// A connection as handleMessage sees it: replies are collected instead of sent
+const connect = () => {
+  const received: ServerMessage[] = [];
+  const ws = { readyState: WebSocket.OPEN, send: (data: string) => received.push(JSON.parse(data)) } as unknown as WebSocket;
+  const current = { room: null };
+  return {
+    received,
+    sendRaw: (data: string) => handleMessage(ws, data, current),
+    send: (msg: ClientMessage | object) => handleMessage(ws, JSON.stringify(msg), current),
+    close: () => handleClose(ws, current),
+    last: () => received[received.length - 1],
+    lastState: () => received.filter(msg => msg.type === 'STATE').pop() as Extract<ServerMessage, { type: 'STATE' }>,
+  };
+};
+
+// Two seated players and a spectator in a fresh room
+const joinRoom = (roomId: string) => {
+  const players = [connect(), connect(), connect()];
+  players.forEach((client, i) => client.send({ type: 'JOIN', roomId, clientId: `client-${i}` }));
+  return players;
+};
+
+describe('Game server', () => {
+  it('seats the first two clients and lets the rest spectate', () => {
+    const [red, black, spectator] = joinRoom('seats');
+    assert.deepEqual([red, black, spectator].map(c => c.received.find(msg => msg.type === 'JOINED')), [
+      { type: 'JOINED', roomId: 'seats', seat: 0 },
+      { type: 'JOINED', roomId: 'seats', seat: 1 },
+      { type: 'JOINED', roomId: 'seats', seat: null },
+    ]);
+    assert.deepEqual(spectator.lastState().connected, [true, true]);
+
+    // Reconnecting with the same client ID gets the seat back
+    const again = connect();
+    again.send({ type: 'JOIN', roomId: 'seats', clientId: 'client-1' });
+    assert.deepEqual(again.received[0], { type: 'JOINED', roomId: 'seats', seat: 1 });
+  });
+
+  it('tells the room when a player leaves for another room or disconnects', () => {
+    const [first, second, spectator] = joinRoom('leaving');
+    first.send({ type: 'JOIN', roomId: 'elsewhere', clientId: 'client-0' });
+    assert.deepEqual(second.lastState().connected, [false, true]);
+
+    second.close();
+    assert.deepEqual(spectator.lastState().connected, [false, false]);
+  });
+
+  it('drops a room once nobody is connected to it', () => {
+    const [first, second, spectator] = joinRoom('empty');
+    first.send({ type: 'ACTION', action: getLegalActions(first.lastState().view, 0).find(a => a.type === ActionType.FLIP)! });
+    assert.equal(first.lastState().ply, 1);
+    [first, second, spectator].forEach(client => client.close());
+
+    // Same room ID, fresh game
+    const [again] = joinRoom('empty');
+    assert.equal(again.lastState().ply, 0);
+  });
+
+  it('plays actions for the seat, not for the player the client claims', () => {
+    const [first, second, spectator] = joinRoom('play');
+    const view = first.lastState().view;
+    const flip = getLegalActions(view, 0).find(a => a.type === ActionType.FLIP)!;
+
+    spectator.send({ type: 'ACTION', action: flip });
+    assert.deepEqual(spectator.last(), { type: 'ERROR', message: 'Spectators cannot play' });
+
+    // Seat 1 is not on move, whatever playerId it sends
+    second.send({ type: 'ACTION', action: { ...flip, playerId: 0 } });
+    const rejected = second.received.filter(msg => msg.type === 'ERROR').pop() as Extract<ServerMessage, { type: 'ERROR' }>;
+    assert.equal(rejected.violation?.code, RuleViolationCode.NOT_YOUR_TURN);
+    assert.equal(second.lastState().ply, 0);
+
+    first.send({ type: 'ACTION', action: { ...flip, playerId: 1 } });
+    for (const client of [first, second, spectator]) {
+      assert.equal(client.lastState().ply, 1);
+      assert.equal(client.lastState().view.lastAction?.playerId, 0);
+    }
+  });
+
+  it('rejects actions the player may not take and resyncs them', () => {
+    const [first] = joinRoom('offered');
+    // Online games have no clock: a client must not flag anyone
+    first.send({ type: 'ACTION', action: { type: ActionType.TIMEOUT, playerId: 0 } });
+    assert.deepEqual(first.last(), { type: 'ERROR', message: 'Malformed message' });
+
+    first.send({ type: 'ACTION', action: { type: ActionType.MOVE, playerId: 0, from: { row: 0, col: 0 }, to: { row: 9, col: 9 } } });
+    assert.equal(first.received.filter(msg => msg.type === 'ERROR').length, 2);
+    assert.equal(first.last().type, 'STATE'); // Resynced after the rejection
+    assert.equal(first.lastState().ply, 0);
+  });
+
+  it('resends the view on RESYNC', () => {
+    const [first] = joinRoom('resync');
+    const before = first.received.length;
+    first.send({ type: 'RESYNC' });
+    assert.equal(first.received.length, before + 1);
+    assert.deepEqual(first.last(), first.received[before - 1]);
+  });
+
+  it('answers bad messages with an error and keeps going', () => {
+    const client = connect();
+    client.send({ type: 'RESYNC' });
+    assert.deepEqual(client.last(), { type: 'ERROR', message: 'Join a room first' });
+
+    const [first] = joinRoom('bad');
+    const bad = [
+      'null', '5', '"JOIN"', '[]', '{', '{}', '{"type":"NOPE"}',
+      '{"type":"JOIN","roomId":7,"clientId":"x"}',
+      '{"type":"ACTION"}',
+      '{"type":"ACTION","action":null}',
+      '{"type":"ACTION","action":{"type":"NOPE","playerId":0}}',
+      '{"type":"ACTION","action":{"type":"FLIP","playerId":0,"flipLocation":"a1"}}',
+      '{"type":"ACTION","action":{"type":"MOVE","playerId":0,"from":{"row":0,"col":0},"to":{"row":0,"col":1},"captureResolution":"EAT"}}',
+      '{"type":"ACTION","action":{"type":"DEPLOY","playerId":0,"deployType":"DRAGON","deployCount":1,"deployTo":{"row":0,"col":0}}}',
+      '{"type":"ACTION","action":{"type":"RETRIEVE","playerId":0,"retrieveFrom":{"row":0,"col":0},"retrievePieceIds":5}}',
+    ];
+    for (const data of bad) {
+      first.sendRaw(data);
+      assert.deepEqual(first.last(), { type: 'ERROR', message: 'Malformed message' }, data);
+    }
+
+    // Still in the room and able to play
+    const flip = getLegalActions(first.lastState().view, 0).find(a => a.type === ActionType.FLIP)!;
+    first.send({ type: 'ACTION', action: flip });
+    assert.equal(first.lastState().ply, 1);
+  });
+});
@@ -0,0 +1,270 @@
+
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer, WebSocket } from 'ws';
+import { initRandomGame, applyAction, getLegalActions } from './gameEngine';
+import { GameRecord, createGameRecord, getCurrentState, recordAction } from './gameRecord';
+import { getPlayerView } from './playerView';
+import { ClientMessage, ServerMessage, DEFAULT_SERVER_PORT } from './netProtocol';
+import { describeViolation } from './violations';
+import { formatPosition } from './notation';
+import { ActionType, CaptureResolution, GameState, Location, PieceType, PlayerAction } from './types';
+
+/*
+ * Authoritative game server. Owns the real GameState of every room, validates each action
+ * with applyAction and only ever sends redacted player views to clients.
+ *
+ *   npm run server            (PORT env overrides the default port)
+ */
+
+interface Room {
+  id: string;
+  record: GameRecord;
+  seats: [string | null, string | null]; // clientId holding each seat
+  sockets: Map<WebSocket, string>;       // live connection -> clientId
+}
+
+const rooms = new Map<string, Room>();
+
+const send = (ws: WebSocket, msg: ServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+};
+
+const seatOf = (room: Room, clientId: string): number | null => {
+  const seat = room.seats.indexOf(clientId);
+  return seat >= 0 ? seat : null;
+};
+
+const sendState = (room: Room, ws: WebSocket) => {
+  const clientId = room.sockets.get(ws);
+  if (clientId === undefined) return;
+  const connectedIds = new Set(room.sockets.values());
+  const state = getCurrentState(room.record);
+
+  send(ws, {
+    type: 'STATE',
+    view: getPlayerView(state, seatOf(room, clientId) ?? 0),
+    ply: room.record.ply,
+    connected: [room.seats[0] !== null && connectedIds.has(room.seats[0]), room.seats[1] !== null && connectedIds.has(room.seats[1])],
+  });
+};
+
+const broadcastState = (room: Room) => {
+  for (const ws of room.sockets.keys()) sendState(room, ws);
+};
+
+/**
+ * Takes a socket out of its room. Seats are kept so the player can reconnect, and the others
+ * see them as disconnected; a room nobody is connected to any more is dropped with its game.
+ */
+const leaveRoom = (room: Room, ws: WebSocket) => {
+  room.sockets.delete(ws);
+  if (room.sockets.size === 0) rooms.delete(room.id);
+  else broadcastState(room);
+};
+
+const getOrCreateRoom = (roomId: string): Room => {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = { id: roomId, record: createGameRecord(initRandomGame()), seats: [null, null], sockets: new Map() };
+    rooms.set(roomId, room);
+  }
+  return room;
+};
+
+// --- Message Checks ---
+// Clients are untrusted: messages are rebuilt from exactly the fields their type uses, or rejected.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readLocation = (value: unknown): Location | null =>
+  isRecord(value) && Number.isInteger(value.row) && Number.isInteger(value.col) ? { row: value.row as number, col: value.col as number } : null;
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  (Object.values(values) as unknown[]).includes(value);
+
+const readAction = (value: unknown): PlayerAction | null => {
+  if (!isRecord(value) || (value.playerId !== 0 && value.playerId !== 1)) return null;
+  const playerId = value.playerId;
+
+  switch (value.type) {
+    case ActionType.FLIP: {
+      const flipLocation = readLocation(value.flipLocation);
+      return flipLocation && { type: ActionType.FLIP, playerId, flipLocation };
+    }
+    case ActionType.MOVE: {
+      const from = readLocation(value.from);
+      const to = readLocation(value.to);
+      if (!from || !to) return null;
+      const move: PlayerAction = { type: ActionType.MOVE, playerId, from, to };
+      if (value.captureResolution !== undefined) {
+        if (!isOneOf(CaptureResolution, value.captureResolution)) return null;
+        move.captureResolution = value.captureResolution;
+      }
+      return move;
+    }
+    case ActionType.DEPLOY: {
+      const deployTo = readLocation(value.deployTo);
+      const { deployType, deployCount } = value;
+      if (!deployTo || !isOneOf(PieceType, deployType) || !Number.isInteger(deployCount)) return null;
+      return { type: ActionType.DEPLOY, playerId, deployType, deployCount: deployCount as number, deployTo };
+    }
+    case ActionType.RETRIEVE: {
+      const retrieveFrom = readLocation(value.retrieveFrom);
+      const ids = value.retrievePieceIds;
+      if (!retrieveFrom || !Array.isArray(ids) || !ids.every(id => typeof id === 'string')) return null;
+      return { type: ActionType.RETRIEVE, playerId, retrieveFrom, retrievePieceIds: [...ids] };
+    }
+    // TIMEOUT is left out: online games have no clock, so no client may flag the other
+    case ActionType.PASS:
+    case ActionType.OFFER_DRAW:
+    case ActionType.ACCEPT_DRAW:
+    case ActionType.RESIGN:
+      return { type: value.type, playerId };
+    default:
+      return null;
+  }
+};
+
+const readClientMessage = (value: unknown): ClientMessage | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'JOIN': {
+      const { roomId, clientId } = value;
+      if (typeof roomId !== 'string' || typeof clientId !== 'string') return null;
+      return { type: 'JOIN', roomId, clientId };
+    }
+    case 'ACTION': {
+      const action = readAction(value.action);
+      return action && { type: 'ACTION', action };
+    }
+    case 'RESYNC':
+    case 'RESTART':
+      return { type: value.type };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Whether 'action' (already accepted by applyAction, giving 'result') is one getLegalActions offers
+ * the player, or a resignation. Outcomes are compared rather than fields: getLegalActions lists one
+ * RETRIEVE per outcome while players pick pieces by ID, and the UI sends a capture resolution for
+ * moves onto empty squares, where the generator gives none.
+ */
+const isOfferedAction = (state: GameState, action: PlayerAction, result: GameState): boolean => {
+  if (action.type === ActionType.RESIGN) return true;
+  const position = formatPosition(result);
+  return getLegalActions(state, action.playerId).some(legal =>
+    legal.type === action.type && formatPosition(applyAction(state, legal)) === position
+  );
+};
+
+// --- Message Handling ---
+
+const handleClientMessage = (ws: WebSocket, msg: ClientMessage, current: { room: Room | null }) => {
+  if (msg.type === 'JOIN') {
+    if (!msg.roomId || !msg.clientId) return send(ws, { type: 'ERROR', message: 'Missing room or client id' });
+
+    if (current.room && current.room.id !== msg.roomId) leaveRoom(current.room, ws);
+    const room = getOrCreateRoom(msg.roomId);
+    room.sockets.set(ws, msg.clientId);
+    current.room = room;
+
+    // Reconnecting clients keep their seat; new clients take a free one or spectate
+    let seat = seatOf(room, msg.clientId);
+    if (seat === null) {
+      const free = room.seats.indexOf(null);
+      if (free >= 0) {
+        room.seats[free] = msg.clientId;
+        seat = free;
+      }
+    }
+
+    send(ws, { type: 'JOINED', roomId: room.id, seat });
+    broadcastState(room);
+    return;
+  }
+
+  const room = current.room;
+  if (!room) return send(ws, { type: 'ERROR', message: 'Join a room first' });
+  const seat = seatOf(room, room.sockets.get(ws)!);
+
+  switch (msg.type) {
+    case 'RESYNC':
+      sendState(room, ws);
+      return;
+
+    case 'ACTION': {
+      if (seat === null) return send(ws, { type: 'ERROR', message: 'Spectators cannot play' });
+
+      // The seat, not the client, decides who is acting
+      const action = { ...msg.action, playerId: seat };
+      const state = getCurrentState(room.record);
+      const result = applyAction(state, action);
+      if (result.error || !isOfferedAction(state, action, result)) {
+        if (result.error) send(ws, { type: 'ERROR', message: describeViolation(result.error), violation: result.error });
+        else send(ws, { type: 'ERROR', message: 'Action not allowed' });
+        sendState(room, ws); // Resync the client that got out of step
+        return;
+      }
+      room.record = recordAction(room.record, action, result);
+      broadcastState(room);
+      return;
+    }
+
+    case 'RESTART': {
+      if (seat === null) return send(ws, { type: 'ERROR', message: 'Spectators cannot restart' });
+      if (!getCurrentState(room.record).isGameOver) return send(ws, { type: 'ERROR', message: 'Game is still running' });
+      room.record = createGameRecord(initRandomGame());
+      broadcastState(room);
+      return;
+    }
+  }
+};
+
+/**
+ * Handles one raw message from a client. Malformed messages and unexpected failures are answered
+ * with an ERROR, never allowed to take the server down.
+ */
+export const handleMessage = (ws: WebSocket, data: string, current: { room: Room | null }) => {
+  let msg: ClientMessage | null;
+  try {
+    msg = readClientMessage(JSON.parse(data));
+  } catch {
+    msg = null;
+  }
+  if (!msg) return send(ws, { type: 'ERROR', message: 'Malformed message' });
+
+  try {
+    handleClientMessage(ws, msg, current);
+  } catch (err) {
+    console.error(err);
+    send(ws, { type: 'ERROR', message: 'Server error' });
+  }
+};
+
+export const handleClose = (ws: WebSocket, current: { room: Room | null }) => {
+  if (current.room) leaveRoom(current.room, ws);
+  current.room = null;
+};
+
+const startServer = (port: number) => {
+  const wss = new WebSocketServer({ port });
+
+  wss.on('connection', (ws) => {
+    const current: { room: Room | null } = { room: null };
+
+    ws.on('message', (data) => handleMessage(ws, data.toString(), current));
+
+    ws.on('close', () => handleClose(ws, current));
+  });
+
+  console.log(`Stacking Xiangqi server listening on ws://localhost:${port}`);
+  return wss;
+};
+
+// Only when run as the server, not when imported by tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startServer(Number(process.env.PORT) || DEFAULT_SERVER_PORT);
+}
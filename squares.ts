@@ -0,0 +1,19 @@
+import { Location } from './types';
+
+// --- Squares ---
+//
+// Columns are letters from 'a', rows are numbers from 1: a1 = { row: 0, col: 0 }.
+// Shared by the notation and by every message that names a square.
+
+const COLS = 'abcdefghijklmnopqrstuvwxyz';
+
+export const formatSquare = (loc: Location): string => `${COLS[loc.col]}${loc.row + 1}`;
+
+/**
+ * Parses a square. Only the syntax is checked; board bounds are the engine's job.
+ */
+export const parseSquare = (text: string): Location => {
+  const match = /^([a-z])(\d+)$/.exec(text);
+  if (!match || parseInt(match[2], 10) < 1) throw new Error(`Invalid square "${text}"`);
+  return { row: parseInt(match[2], 10) - 1, col: COLS.indexOf(match[1]) };
+};
@@ -1,6 +1,11 @@
 
 import { initRandomGame, applyAction, getLegalActions } from './gameEngine';
-import { ActionType, GameState, PieceType, CaptureResolution, PIECE_RANKS } from './types';
+import { ActionType, GameState, PieceType, CaptureResolution, PIECE_RANKS, PlayerAction, Location, Color, HIDDEN_PIECE_TYPE, CaptureRule, RULE_PRESETS, GameEndReason, RuleViolationCode } from './types';
+import { formatAction, formatPosition, parseActions, parsePosition } from './notation';
+import { getPlayerView } from './playerView';
+import { describeViolation } from './violations';
+import { CATALOGS, DEFAULT_LOCALE, MessageKey } from './i18n';
+import { TIME_CONTROL_PRESETS, createClock, passClock, getRemainingMs, getFlaggedPlayer } from './clock';
 
 export const runTests = () => {
   const logs: string[] = [];
@@ -36,7 +41,7 @@ export const runTests = () => {
       captureResolution: CaptureResolution.TO_HAND
   });
   
-  if (state.error) log(`FAIL: Soldier vs General error: ${state.error}`);
+  if (state.error) log(`FAIL: Soldier vs General error: ${describeViolation(state.error)}`);
   else log(`SUCCESS: Soldier ate General.`);
 
   // --- TEST 2: CHAIN CAPTURE ---
@@ -104,11 +109,224 @@ export const runTests = () => {
       deployCount: 1
   });
 
-  if (state.error) log(`FAIL: Could not stack Soldier on General: ${state.error}`);
+  if (state.error) log(`FAIL: Could not stack Soldier on General: ${describeViolation(state.error)}`);
   else {
       const stack = state.board[3][3];
       log(`SUCCESS: Stack size ${stack?.pieces.length}. Top is ${stack?.pieces[1].type}.`);
   }
 
+  // --- TEST 4: LEGAL MOVE GENERATOR vs applyAction ---
+  log("\n--- Test 4: getLegalActions matches applyAction ---");
+  let mismatches = 0;
+  let positions = 0;
+  for (let seed = 1; seed <= 5 && mismatches === 0; seed++) {
+    let s = initRandomGame(seed);
+    for (let ply = 0; ply < 80 && !s.isGameOver; ply++) {
+      const legal = getLegalActions(s, s.activePlayerIndex);
+      const generated = new Set(legal.map(a => outcomeKey(s, a)));
+      const accepted = new Set(enumerateCandidateActions(s).filter(a => !applyAction(s, a).error).map(a => outcomeKey(s, a)));
+      positions++;
+
+      for (const key of accepted) if (!generated.has(key)) { mismatches++; log(`FAIL: seed ${seed} ply ${ply}: ${key} accepted but not generated`); }
+      for (const key of generated) if (!accepted.has(key)) { mismatches++; log(`FAIL: seed ${seed} ply ${ply}: ${key} generated but rejected`); }
+
+      s = applyAction(s, legal[(seed * 31 + ply * 7) % legal.length]);
+    }
+  }
+  if (mismatches === 0) log(`SUCCESS: Generator matched applyAction on ${positions} positions.`);
+
+  // --- TEST 5: REDACTED PLAYER VIEW ---
+  log("\n--- Test 5: Player view hides face-down pieces ---");
+  let leaks = 0;
+  let viewMismatches = 0;
+  let v = initRandomGame(99);
+  for (let ply = 0; ply < 60 && !v.isGameOver; ply++) {
+    const view = getPlayerView(v, v.activePlayerIndex);
+    view.board.forEach(row => row.forEach(stack => stack?.pieces.forEach(p => {
+      if (!p.faceUp && (p.color !== Color.UNKNOWN || p.type !== HIDDEN_PIECE_TYPE)) leaks++;
+    })));
+    if (view.seed !== 0) leaks++;
+
+    const fromState = getLegalActions(v, v.activePlayerIndex).map(formatAction).sort().join(' ');
+    const fromView = getLegalActions(view, v.activePlayerIndex).map(formatAction).sort().join(' ');
+    if (fromState !== fromView) viewMismatches++;
+
+    const options = getLegalActions(v, v.activePlayerIndex);
+    v = applyAction(v, options[(ply * 13) % options.length]);
+  }
+  if (leaks > 0) log(`FAIL: ${leaks} hidden identities leaked into views`);
+  else if (viewMismatches > 0) log(`FAIL: Legal actions differ between state and view in ${viewMismatches} positions`);
+  else log("SUCCESS: Views are redacted and yield the same legal actions.");
+
+  // --- TEST 6: RANK CAPTURE MODES ---
+  log("\n--- Test 6: Rank-based capture rules ---");
+  const rankCase = (captureRule: CaptureRule, attacker: PieceType, defender: PieceType, attackerWeight: number): boolean => {
+    let r = initRandomGame(1, { ...RULE_PRESETS.STANDARD, captureRule });
+    r = applyAction(r, { type: ActionType.FLIP, playerId: 0, flipLocation: { row: 0, col: 0 } });
+    const me = r.players[0].color;
+    const them = r.players[1].color;
+    r.board[1][0] = { pieces: Array.from({ length: attackerWeight }, (_, i) => ({ id: `a${i}`, type: attacker, color: me, faceUp: true })) };
+    r.board[1][1] = { pieces: [{ id: 'd0', type: defender, color: them, faceUp: true }] };
+    r.activePlayerIndex = 0;
+    return !applyAction(r, { type: ActionType.MOVE, playerId: 0, from: { row: 1, col: 0 }, to: { row: 1, col: 1 } }).error;
+  };
+  const rankExpectations: [CaptureRule, PieceType, PieceType, number, boolean][] = [
+    [CaptureRule.RANK, PieceType.SOLDIER, PieceType.GENERAL, 1, true],
+    [CaptureRule.RANK, PieceType.GENERAL, PieceType.SOLDIER, 1, false],
+    [CaptureRule.RANK, PieceType.ELEPHANT, PieceType.ADVISOR, 1, false],
+    [CaptureRule.RANK, PieceType.ADVISOR, PieceType.HORSE, 1, true],
+    [CaptureRule.RANK_THEN_WEIGHT, PieceType.ELEPHANT, PieceType.ELEPHANT, 1, true],
+    [CaptureRule.RANK_THEN_WEIGHT, PieceType.ELEPHANT, PieceType.ADVISOR, 3, false],
+    [CaptureRule.RANK_AND_WEIGHT, PieceType.ADVISOR, PieceType.HORSE, 1, true],
+    [CaptureRule.WEIGHT_GT, PieceType.ADVISOR, PieceType.HORSE, 1, false],
+  ];
+  let rankFailures = 0;
+  for (const [rule, atk, def, weight, expected] of rankExpectations) {
+    if (rankCase(rule, atk, def, weight) !== expected) {
+      rankFailures++;
+      log(`FAIL: ${rule}: ${atk} x${weight} vs ${def} expected ${expected ? 'capture' : 'blocked'}`);
+    }
+  }
+  if (rankFailures === 0) log("SUCCESS: Rank capture modes behave as configured.");
+
+  // --- TEST 7: DRAW RULES ---
+  log("\n--- Test 7: Repetition, no-progress, turn limit and agreed draws ---");
+  const chariots = 'R7/8/8/7r - - RB 0 - 0';
+  const play = (start: GameState, moves: string) => {
+    let d = start;
+    for (const action of parseActions(moves, start)) d = applyAction(d, action);
+    return d;
+  };
+  const shuffle = 'a1-a2 h4-h3 a2-a1 h3-h4';
+
+  const twice = play(parsePosition(chariots), shuffle);
+  const thrice = play(parsePosition(chariots), `${shuffle} ${shuffle}`);
+  if (twice.isGameOver || thrice.result?.reason !== GameEndReason.REPETITION || thrice.winner !== null) {
+    log("FAIL: Third occurrence of a position should draw by repetition");
+  } else log("SUCCESS: Threefold repetition is a draw.");
+
+  const quiet = play(parsePosition(chariots, { ...RULE_PRESETS.STANDARD, repetitionLimit: 0, noProgressLimit: 6 }), 'a1-a2 h4-h3 a2-a3 h3-h2 a3-a4 h2-h1');
+  if (quiet.result?.reason !== GameEndReason.NO_PROGRESS) log("FAIL: No-progress limit should draw");
+  else log("SUCCESS: No-progress limit is a draw.");
+
+  const long = play(parsePosition('R7/8/8/7r - - RB 0 - 98', { ...RULE_PRESETS.STANDARD, turnLimit: 100 }), 'a1-a2 h4-h3');
+  if (long.result?.reason !== GameEndReason.TURN_LIMIT || long.winner !== null) log("FAIL: Turn limit should draw");
+  else log("SUCCESS: Turn limit is a draw.");
+
+  const offered = play(parsePosition(chariots), '=? a1-a2');
+  const accepted = play(offered, '=');
+  const declined = play(offered, 'h4-h3');
+  if (offered.drawOfferBy !== 0 || accepted.result?.reason !== GameEndReason.AGREED_DRAW || declined.drawOfferBy !== null || declined.isGameOver) {
+    log("FAIL: Draw offers should stand through the offerer's move and end on accept or any other reply");
+  } else if (!applyAction(parsePosition(chariots), { type: ActionType.ACCEPT_DRAW, playerId: 0 }).error) {
+    log("FAIL: Accepting without an offer should be rejected");
+  } else log("SUCCESS: Draw offers can be accepted or declined by playing on.");
+
+  // --- TEST 8: RESIGNATION & TIMEOUT ---
+  log("\n--- Test 8: Resignation and timeout ---");
+  const resigned = play(parsePosition(chariots), '#1');
+  const flagged = play(parsePosition(chariots), 'a1-a2 #t');
+  const lateFlag = applyAction(parsePosition(chariots), { type: ActionType.TIMEOUT, playerId: 1 });
+  if (resigned.winner !== 0 || resigned.result?.reason !== GameEndReason.RESIGNATION) {
+    log("FAIL: The player not on move should be able to resign");
+  } else if (flagged.winner !== 0 || flagged.result?.reason !== GameEndReason.TIMEOUT || !lateFlag.error) {
+    log("FAIL: Only the player to move should be able to lose on time");
+  } else if (getLegalActions(parsePosition(chariots), 0).some(a => a.type === ActionType.RESIGN || a.type === ActionType.TIMEOUT)) {
+    log("FAIL: RESIGN/TIMEOUT should not be generated");
+  } else log("SUCCESS: Resignation and timeout end the game with their reason.");
+
+  // --- TEST 9: CLOCKS ---
+  log("\n--- Test 9: Chess clocks ---");
+  let fischer = createClock(TIME_CONTROL_PRESETS.FISCHER_5_3, 0, 0);
+  fischer = passClock(fischer, 0, 10_000);  // Chain step: same player stays on the clock, no increment
+  fischer = passClock(fischer, 1, 20_000);  // Turn passes: +3s for player 0
+  const fischerOk = getRemainingMs(fischer, 0, 99_000) === 300_000 - 20_000 + 3_000 && getRemainingMs(fischer, 1, 21_000) === 299_000;
+
+  let byo = createClock(TIME_CONTROL_PRESETS.BYO_YOMI_5_3X30, 0, 0);
+  byo = passClock(byo, 1, 300_000 + 45_000);           // Main time plus 1.5 periods: one period lost, fresh one granted
+  const byoOk = byo.periodsLeft[0] === 1 && byo.remainingMs[0] === 30_000;
+  const flagOk = getFlaggedPlayer(byo, 345_000 + 389_999) === null && getFlaggedPlayer(byo, 345_000 + 390_000) === 1; // 5:00 + 3x30s
+  const overtimeFlag = getFlaggedPlayer(passClock(byo, 0, 346_000), 346_000 + 60_000) === 0; // Both remaining periods used up
+
+  if (!fischerOk) log("FAIL: Fischer increment should only be added when the turn passes");
+  else if (!byoOk || !overtimeFlag) log("FAIL: Byo-yomi periods should be used up one overrun at a time");
+  else if (!flagOk) log("FAIL: Only the player on the clock should flag, exactly when their time is up");
+  else log("SUCCESS: Clocks follow the turn, add increments and count byo-yomi periods.");
+
+  // --- TEST 10: STRUCTURED RULE VIOLATIONS ---
+  log("\n--- Test 10: Rule violations carry codes and parameters ---");
+  const heavy = parsePosition('(RR)r6/8/8/8 - - RB 1 - 0');
+  const tooLight = applyAction(heavy, { type: ActionType.MOVE, playerId: 1, from: { row: 0, col: 1 }, to: { row: 0, col: 0 } }).error;
+  const outOfTurn = applyAction(heavy, { type: ActionType.FLIP, playerId: 0, flipLocation: { row: 0, col: 0 } }).error;
+  const overLimit = applyAction(parsePosition('(PPPPPPPPPPPP)7/8/8/7p P - RB 0 - 0'), { type: ActionType.DEPLOY, playerId: 0, deployType: PieceType.SOLDIER, deployCount: 1, deployTo: { row: 0, col: 0 } }).error;
+  if (tooLight?.code !== RuleViolationCode.CAPTURE_TOO_LIGHT || tooLight.attackerWeight !== 1 || tooLight.defenderWeight !== 2) {
+    log(`FAIL: Expected CAPTURE_TOO_LIGHT 1 vs 2, got ${JSON.stringify(tooLight)}`);
+  } else if (outOfTurn?.code !== RuleViolationCode.NOT_YOUR_TURN) {
+    log(`FAIL: Expected NOT_YOUR_TURN, got ${JSON.stringify(outOfTurn)}`);
+  } else if (overLimit?.code !== RuleViolationCode.STACK_LIMIT_EXCEEDED || overLimit.limit !== 12 || overLimit.size !== 13) {
+    log(`FAIL: Expected STACK_LIMIT_EXCEEDED 13 > 12, got ${JSON.stringify(overLimit)}`);
+  } else log(`SUCCESS: Violations are structured ("${describeViolation(tooLight)}").`);
+
+  // --- TEST 11: LOCALES ---
+  log("\n--- Test 11: Every catalog uses the same placeholders ---");
+  const placeholders = (template: string) => (template.match(/\{\w+\}/g) ?? []).sort().join(',');
+  const mismatched = Object.entries(CATALOGS).flatMap(([locale, catalog]) =>
+    (Object.keys(CATALOGS[DEFAULT_LOCALE]) as MessageKey[])
+      .filter(key => placeholders(catalog[key]) !== placeholders(CATALOGS[DEFAULT_LOCALE][key]))
+      .map(key => `${locale}:${key}`));
+  const english = tooLight ? describeViolation(tooLight, 'en') : '';
+  if (mismatched.length > 0) log(`FAIL: Placeholders differ from ${DEFAULT_LOCALE} in ${mismatched.join(', ')}`);
+  else if (english.includes('{') || english === describeViolation(tooLight!)) log(`FAIL: English violation text not filled in: "${english}"`);
+  else log(`SUCCESS: Catalogs agree ("${english}").`);
+
   return logs;
 };
+
+// Retrieves of interchangeable pieces are generated once, so they compare by the position they leave
+const outcomeKey = (state: GameState, action: PlayerAction): string =>
+  action.type === ActionType.RETRIEVE ? `^ -> ${formatPosition(applyAction(state, action))}` : formatAction(action);
+
+/**
+ * Brute-force action space (canonical forms) used to cross-check the generator:
+ * every flip, move, deploy count and retrieve subset, whether legal or not.
+ * RESIGN and TIMEOUT are left out: they are always accepted and deliberately not generated.
+ */
+const enumerateCandidateActions = (state: GameState): PlayerAction[] => {
+  const playerId = state.activePlayerIndex;
+  const candidates: PlayerAction[] = [
+    { type: ActionType.PASS, playerId },
+    { type: ActionType.OFFER_DRAW, playerId },
+    { type: ActionType.ACCEPT_DRAW, playerId },
+  ];
+  const cells: Location[] = [];
+  for (let row = 0; row < state.rules.rows; row++) for (let col = 0; col < state.rules.cols; col++) cells.push({ row, col });
+
+  for (const from of cells) {
+    candidates.push({ type: ActionType.FLIP, playerId, flipLocation: from });
+
+    for (const to of cells) {
+      if (state.board[to.row][to.col]) {
+        candidates.push({ type: ActionType.MOVE, playerId, from, to, captureResolution: CaptureResolution.TO_HAND });
+        candidates.push({ type: ActionType.MOVE, playerId, from, to, captureResolution: CaptureResolution.STACK_IF_POSSIBLE });
+      } else {
+        candidates.push({ type: ActionType.MOVE, playerId, from, to });
+      }
+    }
+
+    for (const deployType of Object.values(PieceType)) {
+      const available = state.players[playerId].hand.pieces.filter(p => p.type === deployType).length;
+      for (let deployCount = 1; deployCount <= available; deployCount++) {
+        candidates.push({ type: ActionType.DEPLOY, playerId, deployTo: from, deployType, deployCount });
+      }
+    }
+
+    const stack = state.board[from.row][from.col];
+    if (stack) {
+      for (let mask = 1; mask < (1 << stack.pieces.length); mask++) {
+        const ids = stack.pieces.filter((_, i) => mask & (1 << i)).map(p => p.id);
+        candidates.push({ type: ActionType.RETRIEVE, playerId, retrieveFrom: from, retrievePieceIds: ids });
+      }
+    }
+  }
+  return candidates;
+};
@@ -27,6 +27,9 @@ export const PIECE_RANKS: Record<PieceType, number> = {
   [PieceType.SOLDIER]: 0,
 };
 
+// Placeholder type written into face-down pieces of a redacted player view (see playerView.ts)
+export const HIDDEN_PIECE_TYPE = PieceType.SOLDIER;
+
 export interface PieceInstance {
   id: string; // Unique ID
   type: PieceType;
@@ -61,12 +64,40 @@ export interface GameState {
   colorsAssigned: boolean;
   turnCount: number;
   isGameOver: boolean;
-  winner: number | null;
+  winner: number | null;      // Mirrors result.winner (null while running or on a draw)
+  result: GameResult | null;  // Set once the game is over
   lastAction: PlayerAction | null;
-  error: string | null;
+  error: RuleViolation | null; // Why the last applyAction was rejected (describeViolation renders it)
   
   // Logic for Chain Captures
   pendingChainCapture: Location | null; // If set, active player MUST move piece at this location to Capture, or Pass
+
+  // Seed used by initRandomGame to deal this game (reproduces board + piece IDs)
+  seed: number;
+
+  // Rules this game is played under (board size, limits, capture rules)
+  rules: RuleSet;
+
+  // Draw bookkeeping
+  drawOfferBy: number | null;             // Player with an open draw offer
+  noProgressPlies: number;                // Actions since the last capture or flip
+  positionCounts: Record<string, number>; // positionKey -> times seen at a turn start (cleared by flips)
+}
+
+export enum GameEndReason {
+  ELIMINATION = 'ELIMINATION', // Loser has no face-up pieces left and nothing hidden
+  STALEMATE = 'STALEMATE',     // Loser has no legal move
+  RESIGNATION = 'RESIGNATION',
+  TIMEOUT = 'TIMEOUT',         // Loser's clock ran out
+  REPETITION = 'REPETITION',
+  NO_PROGRESS = 'NO_PROGRESS', // Too long without a capture or flip
+  TURN_LIMIT = 'TURN_LIMIT',   // Game reached the rule set's turn limit
+  AGREED_DRAW = 'AGREED_DRAW',
+}
+
+export interface GameResult {
+  winner: number | null; // null = draw
+  reason: GameEndReason;
 }
 
 export enum ActionType {
@@ -75,6 +106,10 @@ export enum ActionType {
   DEPLOY = 'DEPLOY',
   RETRIEVE = 'RETRIEVE',
   PASS = 'PASS', // Used to end turn during Chain Capture
+  OFFER_DRAW = 'OFFER_DRAW',   // Does not use up the turn; stands until the opponent acts
+  ACCEPT_DRAW = 'ACCEPT_DRAW', // Any other action by the opponent declines
+  RESIGN = 'RESIGN',           // Either player, at any time
+  TIMEOUT = 'TIMEOUT',         // Issued for the player to move when their clock runs out
 }
 
 export enum CaptureResolution {
@@ -104,6 +139,99 @@ export interface PlayerAction {
   retrievePieceIds?: string[]; // Which specific pieces to pull
 }
 
+// One interaction of a chain capture: the chaining stack moves onto the stack at 'to'
+export interface ChainStep {
+  to: Location;
+  captureResolution: CaptureResolution;
+}
+
+// A playable chain from 'from' (see planChains). The chain may still be pending after the last step.
+export interface ChainPlan {
+  from: Location;
+  steps: ChainStep[];
+  actions: PlayerAction[]; // One MOVE per step
+  states: GameState[];     // State after each step; the last one is the result
+}
+
+// --- Rule Violations ---
+
+export enum RuleViolationCode {
+  GAME_OVER = 'GAME_OVER',
+  NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+  INVALID_PLAYER = 'INVALID_PLAYER',
+  MISSING_PARAMS = 'MISSING_PARAMS',
+  UNKNOWN_ACTION = 'UNKNOWN_ACTION',
+  INVALID_COORDINATES = 'INVALID_COORDINATES',
+  DRAW_ALREADY_OFFERED = 'DRAW_ALREADY_OFFERED',
+  NO_DRAW_OFFER = 'NO_DRAW_OFFER',
+  CHAIN_MOVE_REQUIRED = 'CHAIN_MOVE_REQUIRED',               // Only MOVE or PASS while chaining
+  CHAIN_WRONG_PIECE = 'CHAIN_WRONG_PIECE',
+  CHAIN_INTERACTION_REQUIRED = 'CHAIN_INTERACTION_REQUIRED', // Chain steps must land on a stack
+  NOT_CHAINING = 'NOT_CHAINING',                             // PASS outside a chain
+  CHAIN_ENDED = 'CHAIN_ENDED',                               // Planned chain steps after the chain stopped
+  EMPTY_CELL = 'EMPTY_CELL',
+  ALREADY_REVEALED = 'ALREADY_REVEALED',
+  SAME_SQUARE = 'SAME_SQUARE',
+  HIDDEN_PIECE = 'HIDDEN_PIECE',
+  NOT_YOUR_PIECE = 'NOT_YOUR_PIECE',
+  INVALID_MOVE_PATTERN = 'INVALID_MOVE_PATTERN',
+  CANNON_SCREENS = 'CANNON_SCREENS',
+  CAPTURE_TOO_LIGHT = 'CAPTURE_TOO_LIGHT',
+  CAPTURE_RANK_TOO_LOW = 'CAPTURE_RANK_TOO_LOW',
+  STACK_COLOR_MISMATCH = 'STACK_COLOR_MISMATCH',
+  STACK_TYPE_MISMATCH = 'STACK_TYPE_MISMATCH',
+  STACK_LIMIT_EXCEEDED = 'STACK_LIMIT_EXCEEDED',
+  INVALID_COUNT = 'INVALID_COUNT',
+  NOT_ENOUGH_IN_HAND = 'NOT_ENOUGH_IN_HAND',
+  DEPLOY_ON_ENEMY = 'DEPLOY_ON_ENEMY',
+  NOTHING_TO_RETRIEVE = 'NOTHING_TO_RETRIEVE',
+  DUPLICATE_PIECE_IDS = 'DUPLICATE_PIECE_IDS',
+  MUST_LEAVE_PIECE = 'MUST_LEAVE_PIECE',
+  PIECE_NOT_IN_STACK = 'PIECE_NOT_IN_STACK',
+}
+
+// Machine-readable reason an action was rejected. Parameters are what a message (or a bot) needs.
+export type RuleViolation =
+  | {
+      code:
+        | RuleViolationCode.GAME_OVER
+        | RuleViolationCode.NOT_YOUR_TURN
+        | RuleViolationCode.INVALID_PLAYER
+        | RuleViolationCode.DRAW_ALREADY_OFFERED
+        | RuleViolationCode.NO_DRAW_OFFER
+        | RuleViolationCode.CHAIN_MOVE_REQUIRED
+        | RuleViolationCode.CHAIN_INTERACTION_REQUIRED
+        | RuleViolationCode.NOT_CHAINING
+        | RuleViolationCode.SAME_SQUARE
+        | RuleViolationCode.STACK_COLOR_MISMATCH
+        | RuleViolationCode.NOTHING_TO_RETRIEVE
+        | RuleViolationCode.DUPLICATE_PIECE_IDS
+        | RuleViolationCode.MUST_LEAVE_PIECE;
+    }
+  | { code: RuleViolationCode.MISSING_PARAMS; actionType: ActionType }
+  | { code: RuleViolationCode.UNKNOWN_ACTION; actionType: string }
+  | {
+      code:
+        | RuleViolationCode.INVALID_COORDINATES
+        | RuleViolationCode.EMPTY_CELL
+        | RuleViolationCode.ALREADY_REVEALED
+        | RuleViolationCode.HIDDEN_PIECE
+        | RuleViolationCode.NOT_YOUR_PIECE
+        | RuleViolationCode.DEPLOY_ON_ENEMY;
+      location: Location;
+    }
+  | { code: RuleViolationCode.CHAIN_WRONG_PIECE; chainAt: Location }
+  | { code: RuleViolationCode.CHAIN_ENDED; step: number }
+  | { code: RuleViolationCode.INVALID_MOVE_PATTERN; baseType: PieceType }
+  | { code: RuleViolationCode.CANNON_SCREENS; required: number; actual: number }
+  | { code: RuleViolationCode.CAPTURE_TOO_LIGHT; attackerWeight: number; defenderWeight: number; captureRule: CaptureRule }
+  | { code: RuleViolationCode.CAPTURE_RANK_TOO_LOW; attackerType: PieceType; defenderType: PieceType }
+  | { code: RuleViolationCode.STACK_TYPE_MISMATCH; baseType: PieceType; incomingType: PieceType }
+  | { code: RuleViolationCode.STACK_LIMIT_EXCEEDED; baseType: PieceType; limit: number; size: number }
+  | { code: RuleViolationCode.INVALID_COUNT; count: number }
+  | { code: RuleViolationCode.NOT_ENOUGH_IN_HAND; pieceType: PieceType; requested: number; available: number }
+  | { code: RuleViolationCode.PIECE_NOT_IN_STACK; pieceId: string };
+
 // --- Constants & Config ---
 
 export const STACK_LIMITS: Record<PieceType, number> = {
@@ -126,3 +254,68 @@ export const INITIAL_PIECE_COUNTS: Record<PieceType, number> = {
   [PieceType.CANNON]: 2,
   [PieceType.SOLDIER]: 5,
 };
+
+// --- Rule Sets ---
+
+// Rank rules compare stack base types by PIECE_RANKS, banqi style: higher or equal rank captures,
+// a soldier may capture a general (but not the reverse), and an attacking cannon ignores rank.
+export enum CaptureRule {
+  WEIGHT_GTE = 'WEIGHT_GTE',             // Attacker stack weight >= defender weight (classic)
+  WEIGHT_GT = 'WEIGHT_GT',               // Attacker must be strictly heavier
+  RANK = 'RANK',                         // Rank only, weight ignored
+  RANK_AND_WEIGHT = 'RANK_AND_WEIGHT',   // Rank rule AND weight >= weight
+  RANK_THEN_WEIGHT = 'RANK_THEN_WEIGHT', // Rank decides; equal ranks (and cannons) fall back to weight >= weight
+}
+
+export interface RuleSet {
+  name: string;
+  rows: number;
+  cols: number;
+  stackLimits: Record<PieceType, number>;        // Max stack size by base type
+  initialPieceCounts: Record<PieceType, number>; // Per color; must fit rows * cols when doubled
+  soldierCanChain: boolean;                      // Soldier-based stacks may continue a chain capture
+  cannonScreens: number;                         // Exact screens a cannon needs to interact
+  captureRule: CaptureRule;
+  repetitionLimit: number;                       // Same position this many times = draw (0 = off)
+  noProgressLimit: number;                       // Actions without capture or flip = draw (0 = off)
+  turnLimit: number;                             // Turns played = draw (0 = off); captured pieces return through hands, so nothing else bounds a game
+}
+
+export const STANDARD_RULES: RuleSet = {
+  name: 'STANDARD',
+  rows: 4,
+  cols: 8,
+  stackLimits: STACK_LIMITS,
+  initialPieceCounts: INITIAL_PIECE_COUNTS,
+  soldierCanChain: false,
+  cannonScreens: 1,
+  captureRule: CaptureRule.WEIGHT_GTE,
+  repetitionLimit: 3,
+  noProgressLimit: 100,
+  turnLimit: 0,
+};
+
+// Named house-rule presets (keys match RuleSet.name)
+export const RULE_PRESETS: Record<string, RuleSet> = {
+  STANDARD: STANDARD_RULES,
+  SOLDIER_CHAIN: { ...STANDARD_RULES, name: 'SOLDIER_CHAIN', soldierCanChain: true },
+  STRICT_WEIGHT: { ...STANDARD_RULES, name: 'STRICT_WEIGHT', captureRule: CaptureRule.WEIGHT_GT },
+  BANQI_RANK: { ...STANDARD_RULES, name: 'BANQI_RANK', captureRule: CaptureRule.RANK },
+  RANK_AND_WEIGHT: { ...STANDARD_RULES, name: 'RANK_AND_WEIGHT', captureRule: CaptureRule.RANK_AND_WEIGHT },
+  RANK_THEN_WEIGHT: { ...STANDARD_RULES, name: 'RANK_THEN_WEIGHT', captureRule: CaptureRule.RANK_THEN_WEIGHT },
+  OPEN_BOARD: { ...STANDARD_RULES, name: 'OPEN_BOARD', rows: 5 }, // 8 empty cells at the start
+  HALF_BOARD: {
+    ...STANDARD_RULES,
+    name: 'HALF_BOARD',
+    cols: 4,
+    initialPieceCounts: {
+      [PieceType.GENERAL]: 1,
+      [PieceType.ADVISOR]: 1,
+      [PieceType.ELEPHANT]: 1,
+      [PieceType.CHARIOT]: 1,
+      [PieceType.HORSE]: 1,
+      [PieceType.CANNON]: 1,
+      [PieceType.SOLDIER]: 2,
+    },
+  },
+};
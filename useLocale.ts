@@ -0,0 +1,41 @@
+
+import { createContext, useContext, useState, useCallback } from 'react';
+import { Locale, MessageKey, MessageParams, translate, isLocale, detectLocale } from './i18n';
+
+const LOCALE_KEY = 'stacking-xiangqi.locale';
+
+// Provided once by App; components below read it with useTranslation()
+export const LocaleContext = createContext<Locale>(detectLocale());
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const useTranslation = (): { locale: Locale; t: Translate } => {
+  const locale = useContext(LocaleContext);
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+  return { locale, t };
+};
+
+const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    return isLocale(stored) ? stored : detectLocale();
+  } catch {
+    return detectLocale();
+  }
+};
+
+/**
+ * The chosen language, remembered across reloads.
+ */
+export const useLocaleSetting = (): [Locale, (locale: Locale) => void] => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(LOCALE_KEY, next);
+    } catch (e) {
+      console.warn('Could not remember language', e);
+    }
+  };
+  return [locale, setLocale];
+};
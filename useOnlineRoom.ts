@@ -0,0 +1,160 @@
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { PlayerAction, RuleViolation } from './types';
+import { PlayerView } from './playerView';
+import { ClientMessage, ServerMessage, DEFAULT_SERVER_PORT } from './netProtocol';
+
+export type OnlineStatus = 'OFFLINE' | 'CONNECTING' | 'ONLINE' | 'RECONNECTING';
+
+export interface OnlineRoom {
+  status: OnlineStatus;
+  roomId: string | null;
+  seat: number | null;                 // null while spectating
+  view: PlayerView | null;             // Latest authoritative view from the server
+  connected: [boolean, boolean];       // Whether each seat currently has a live connection
+  error: string | null;
+  violation: RuleViolation | null;     // Structured form of 'error' when an action was rejected, for localized display
+  join: (roomId: string, serverUrl?: string) => void;
+  leave: () => void;
+  sendAction: (action: PlayerAction) => void;
+  restart: () => void;
+}
+
+const CLIENT_ID_KEY = 'stacking-xiangqi.clientId';
+const MAX_RECONNECT_DELAY_MS = 8000;
+
+export const defaultServerUrl = (): string => `ws://${location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+
+// Stable per browser tab, so a reload or dropped connection reclaims the same seat.
+// sessionStorage (not localStorage) lets two tabs on one machine take both seats.
+const getClientId = (): string => {
+  let id = sessionStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).substring(2, 12);
+    sessionStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+/**
+ * Connection to an authoritative game server room. Reconnects with backoff and
+ * re-sends JOIN, which makes the server resend the current view (resync).
+ */
+export const useOnlineRoom = (): OnlineRoom => {
+  const [status, setStatus] = useState<OnlineStatus>('OFFLINE');
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [seat, setSeat] = useState<number | null>(null);
+  const [view, setView] = useState<PlayerView | null>(null);
+  const [connected, setConnected] = useState<[boolean, boolean]>([false, false]);
+  const [error, setError] = useState<string | null>(null);
+  const [violation, setViolation] = useState<RuleViolation | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const targetRef = useRef<{ roomId: string; serverUrl: string } | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const attemptsRef = useRef(0);
+
+  const send = (msg: ClientMessage) => {
+    const ws = socketRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const connect = useCallback(() => {
+    const target = targetRef.current;
+    if (!target) return;
+
+    const ws = new WebSocket(target.serverUrl);
+    socketRef.current = ws;
+
+    ws.onopen = () => {
+      attemptsRef.current = 0;
+      setStatus('ONLINE');
+      setError(null);
+      setViolation(null);
+      ws.send(JSON.stringify({ type: 'JOIN', roomId: target.roomId, clientId: getClientId() } satisfies ClientMessage));
+    };
+
+    ws.onmessage = (e: MessageEvent<string>) => {
+      let msg: ServerMessage;
+      try {
+        msg = JSON.parse(e.data);
+      } catch {
+        console.warn('Ignoring malformed server message', e.data);
+        return;
+      }
+      switch (msg?.type) {
+        case 'JOINED':
+          setRoomId(msg.roomId);
+          setSeat(msg.seat);
+          break;
+        case 'STATE':
+          setView(msg.view);
+          setConnected(msg.connected);
+          break;
+        case 'ERROR':
+          setError(msg.message);
+          setViolation(msg.violation ?? null);
+          break;
+      }
+    };
+
+    ws.onclose = () => {
+      if (socketRef.current !== ws) return; // Replaced or left on purpose
+      socketRef.current = null;
+      if (!targetRef.current) return;
+
+      setStatus('RECONNECTING');
+      const delay = Math.min(500 * 2 ** attemptsRef.current, MAX_RECONNECT_DELAY_MS);
+      attemptsRef.current++;
+      reconnectTimerRef.current = window.setTimeout(connect, delay);
+    };
+  }, []);
+
+  const closeSocket = () => {
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    const ws = socketRef.current;
+    socketRef.current = null;
+    ws?.close();
+  };
+
+  const join = (nextRoomId: string, serverUrl: string = defaultServerUrl()) => {
+    closeSocket();
+    targetRef.current = { roomId: nextRoomId, serverUrl };
+    attemptsRef.current = 0;
+    setStatus('CONNECTING');
+    setError(null);
+    setViolation(null);
+    connect();
+  };
+
+  const leave = () => {
+    targetRef.current = null;
+    closeSocket();
+    setStatus('OFFLINE');
+    setRoomId(null);
+    setSeat(null);
+    setView(null);
+    setConnected([false, false]);
+    setError(null);
+    setViolation(null);
+  };
+
+  const sendAction = (action: PlayerAction) => {
+    setError(null);
+    setViolation(null);
+    send({ type: 'ACTION', action });
+  };
+
+  const restart = () => send({ type: 'RESTART' });
+
+  // Close the socket when the component unmounts
+  useEffect(() => () => {
+    targetRef.current = null;
+    closeSocket();
+  }, []);
+
+  return { status, roomId, seat, view, connected, error, violation, join, leave, sendAction, restart };
+};
@@ -0,0 +1,58 @@
+
+import { RuleViolation, RuleViolationCode, CaptureRule, PieceType } from './types';
+import { formatSquare } from './squares';
+import { Locale, DEFAULT_LOCALE, MessageKey, MessageParams, translate, pieceName } from './i18n';
+
+/**
+ * Human-readable message for a rejected action, in the given locale. Code that needs to
+ * react to a violation should switch on `violation.code` instead of parsing this text.
+ */
+export const describeViolation = (v: RuleViolation, locale: Locale = DEFAULT_LOCALE): string => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const piece = (type: PieceType) => pieceName(locale, type);
+
+  switch (v.code) {
+    case RuleViolationCode.MISSING_PARAMS:
+      return t('violation.MISSING_PARAMS', { action: v.actionType });
+    case RuleViolationCode.UNKNOWN_ACTION:
+      return t('violation.UNKNOWN_ACTION', { action: v.actionType });
+    case RuleViolationCode.INVALID_COORDINATES:
+      return t('violation.INVALID_COORDINATES', { row: v.location.row, col: v.location.col });
+    case RuleViolationCode.EMPTY_CELL:
+    case RuleViolationCode.ALREADY_REVEALED:
+    case RuleViolationCode.HIDDEN_PIECE:
+    case RuleViolationCode.NOT_YOUR_PIECE:
+    case RuleViolationCode.DEPLOY_ON_ENEMY:
+      return t(`violation.${v.code}`, { square: formatSquare(v.location) });
+    case RuleViolationCode.CHAIN_WRONG_PIECE:
+      return t('violation.CHAIN_WRONG_PIECE', { square: formatSquare(v.chainAt) });
+    case RuleViolationCode.CHAIN_ENDED:
+      return t('violation.CHAIN_ENDED', { step: v.step });
+    case RuleViolationCode.INVALID_MOVE_PATTERN:
+      return t('violation.INVALID_MOVE_PATTERN', { piece: piece(v.baseType) });
+    case RuleViolationCode.CANNON_SCREENS:
+      return v.required === 0
+        ? t('violation.CANNON_MOVE_SCREENS')
+        : t('violation.CANNON_SCREENS', { required: v.required, actual: v.actual });
+    case RuleViolationCode.CAPTURE_TOO_LIGHT:
+      return t(v.captureRule === CaptureRule.WEIGHT_GT ? 'violation.CAPTURE_TOO_LIGHT_STRICT' : 'violation.CAPTURE_TOO_LIGHT', {
+        attacker: v.attackerWeight,
+        defender: v.defenderWeight,
+      });
+    case RuleViolationCode.CAPTURE_RANK_TOO_LOW:
+      return t('violation.CAPTURE_RANK_TOO_LOW', { attacker: piece(v.attackerType), defender: piece(v.defenderType) });
+    case RuleViolationCode.STACK_TYPE_MISMATCH:
+      return t('violation.STACK_TYPE_MISMATCH', { base: piece(v.baseType), incoming: piece(v.incomingType) });
+    case RuleViolationCode.STACK_LIMIT_EXCEEDED:
+      return t('violation.STACK_LIMIT_EXCEEDED', { base: piece(v.baseType), limit: v.limit, size: v.size });
+    case RuleViolationCode.INVALID_COUNT:
+      return t('violation.INVALID_COUNT', { count: v.count });
+    case RuleViolationCode.NOT_ENOUGH_IN_HAND:
+      return t('violation.NOT_ENOUGH_IN_HAND', { piece: piece(v.pieceType), available: v.available, requested: v.requested });
+    case RuleViolationCode.PIECE_NOT_IN_STACK:
+      return t('violation.PIECE_NOT_IN_STACK', { id: v.pieceId });
+    default:
+      // Parameterless codes
+      return t(`violation.${v.code}`);
+  }
+};